@@ -4,126 +4,800 @@ import {
   PublicKey,
   Transaction,
   TransactionInstruction,
-  sendAndConfirmTransaction
+  VersionedTransactionResponse
 } from '@solana/web3.js';
+import { createHash } from 'crypto';
+import fs from 'fs';
+import { AttestationInclusion, AttestationInfo, AttestationLeaf } from './types';
+import { canonicalize } from './canonical';
+import { buildMerkleTree, hashLeaf, verifyMerkleProof } from './merkle';
+import { MemoryStorage, Storage, StoredAttestation, StoredRevocation } from './storage';
+import { AttestationSigner, createSigner, encodeBase58 } from './signer';
 
 const MEMO_PROGRAM_ID = new PublicKey('MemoSq4gqABAXKb96qnH8TysNcWxMyWCqXgDLGmfcHr');
+// Legacy Memo program (v1), still accepted when decoding
+const LEGACY_MEMO_PROGRAM_ID = new PublicKey('Memo1UhkJRfHyvLMcVucJwxXeuD728EqVDDwQDxFMNo');
 
-interface AttestationResult {
+export { canonicalize };
+
+interface PublishedMemo {
   signature: string;
-  slot: number;
+  slot: number; // 0 for a dry run
+  dryRun?: boolean;
+  transaction?: string; // base64 wire transaction, dry run only
+}
+
+interface AttestationResult extends PublishedMemo {
   timestamp: number;
+  memo: AttestationMemoV2;
 }
 
-// Create on-chain attestation via Solana Memo program
-export async function createAttestation(
-  agentName: string,
-  agentAddress: string,
-  score: number
-): Promise<AttestationResult> {
-  // Use devnet for now (switch to mainnet in production)
-  const connection = new Connection(
+export interface BatchAttestationResult extends PublishedMemo {
+  timestamp: number;
+  memo: AttestationBatchMemo;
+  inclusions: AttestationInclusion[]; // in the order the entries were given
+}
+
+export interface BatchEntry {
+  subject: AttestationSubject;
+  agentAddress: string;
+}
+
+export interface AttestationOptions {
+  signer?: AttestationSigner; // default: createSigner() from env
+  connection?: Connection;
+  dryRun?: boolean; // sign but don't send
+  recentBlockhash?: string; // with dryRun, avoids any RPC call
+}
+
+// Use devnet for now (switch to mainnet in production)
+export function createConnection(): Connection {
+  return new Connection(
     process.env.SOLANA_RPC_URL || 'https://api.devnet.solana.com',
     'confirmed'
   );
+}
+
+// Original memo: identity and score only
+export interface AttestationMemoV1 {
+  type: 'poa';
+  version: '1.0';
+  agent: string;
+  name: string;
+  score: number;
+  ts: number;
+}
+
+// Bound to a stored verification result via its id and checks hash
+export interface AttestationMemoV2 extends AttestationLeaf {
+  type: 'poa';
+  version: '2.0';
+  verifier: string; // payer public key
+}
+
+// Merkle root over many agents' leaves; each agent holds an inclusion proof
+export interface AttestationBatchMemo {
+  type: 'poa-batch';
+  version: '1.0';
+  root: string;
+  count: number;
+  verifier: string;
+  ts: number;
+}
+
+export type RevocationReason =
+  | 'malicious'
+  | 'key_compromise'
+  | 'superseded'
+  | 'issued_in_error'
+  | 'other';
+
+export const REVOCATION_REASONS: RevocationReason[] = [
+  'malicious',
+  'key_compromise',
+  'superseded',
+  'issued_in_error',
+  'other'
+];
+
+// Withdraws an earlier attestation (one agent's leaf when vid is set on a batch)
+export interface RevocationMemo {
+  type: 'poa-revoke';
+  version: '1.0';
+  sig: string; // attestation transaction being revoked
+  vid?: string;
+  reason: RevocationReason;
+  verifier: string;
+  ts: number;
+}
 
-  // Load payer keypair from env (in production, use proper key management)
-  const payerSecret = process.env.PAYER_SECRET_KEY;
-  if (!payerSecret) {
-    throw new Error('PAYER_SECRET_KEY not configured');
+export type AttestationMemo =
+  | AttestationMemoV1
+  | AttestationMemoV2
+  | AttestationBatchMemo
+  | RevocationMemo;
+
+// The parts of a completed verification an attestation commits to
+export interface AttestationSubject {
+  id: string;
+  agentName: string;
+  level?: string;
+  score: number;
+  tier?: string;
+  checks: Record<string, boolean>;
+  details?: Record<string, string>;
+  expiresAt?: string;
+}
+
+export type AttestationErrorReason =
+  | 'not_found' // no such transaction (or not yet confirmed)
+  | 'transaction_failed'
+  | 'no_memo' // no Memo-program instruction
+  | 'invalid_memo' // memo present but not a PoA attestation we understand
+  | 'unknown_signer' // not signed by a known verifier key
+  | 'verifier_mismatch' // memo names a verifier that did not sign
+  | 'revoked' // authentic, but withdrawn by a later revocation memo
+  | 'rpc_error';
+
+export interface AttestationVerification {
+  valid: boolean;
+  reason?: AttestationErrorReason;
+  error?: string;
+  signers?: string[];
+  version?: string;
+  attestation?: AttestationMemo;
+  checksMatch?: boolean; // v2 and batch, when a stored result is supplied
+  included?: boolean; // batch only, when an inclusion proof is supplied
+  leaf?: AttestationLeaf;
+  expired?: boolean;
+  revoked?: boolean;
+  revocation?: StoredRevocation;
+  revocationError?: string; // revocations could not be synced; index may be stale
+}
+
+export interface VerifyAttestationOptions {
+  result?: AttestationSubject; // stored verification to compare the checks hash with
+  inclusion?: AttestationInclusion; // for batch memos
+  connection?: Connection;
+  storage?: Storage; // index consulted (and synced) for revocations
+}
+
+export function hashChecks(
+  checks: Record<string, boolean>,
+  details: Record<string, string> = {}
+): string {
+  return createHash('sha256').update(canonicalize({ checks, details })).digest('hex');
+}
+
+export function buildAttestationLeaf(
+  subject: AttestationSubject,
+  agentAddress: string,
+  ts: number = Math.floor(Date.now() / 1000)
+): AttestationLeaf {
+  return {
+    vid: subject.id,
+    agent: agentAddress,
+    name: subject.agentName.substring(0, 32), // Limit name length
+    level: subject.level || 'basic',
+    score: subject.score,
+    tier: subject.tier,
+    checks: hashChecks(subject.checks, subject.details),
+    exp: subject.expiresAt ? Math.floor(Date.parse(subject.expiresAt) / 1000) : undefined,
+    ts
+  };
+}
+
+export function buildAttestationMemo(
+  subject: AttestationSubject,
+  agentAddress: string,
+  verifier: string,
+  ts: number = Math.floor(Date.now() / 1000)
+): AttestationMemoV2 {
+  return {
+    type: 'poa',
+    version: '2.0',
+    ...buildAttestationLeaf(subject, agentAddress, ts),
+    verifier
+  };
+}
+
+function resolveSigner(options: AttestationOptions): AttestationSigner {
+  const signer = options.signer || createSigner();
+  if (!signer) {
+    throw new Error('No attestation signer configured (set PAYER_SECRET_KEY, PAYER_KEYPAIR_PATH or REMOTE_SIGNER_URL)');
   }
+  return signer;
+}
 
-  const payer = Keypair.fromSecretKey(
-    Buffer.from(JSON.parse(payerSecret))
-  );
+// Create on-chain attestation via Solana Memo program
+export async function createAttestation(
+  subject: AttestationSubject,
+  agentAddress: string,
+  options: AttestationOptions = {}
+): Promise<AttestationResult> {
+  const signer = resolveSigner(options);
+  const payer = await signer.getPublicKey();
 
   // Create attestation memo
-  const attestation = {
-    type: 'poa',
+  const attestation = buildAttestationMemo(subject, agentAddress, payer.toBase58());
+
+  const published = await publishMemo(attestation, signer, options);
+
+  return {
+    ...published,
+    timestamp: attestation.ts,
+    memo: attestation
+  };
+}
+
+/**
+ * Attest many verifications in one memo holding the Merkle root of their
+ * leaves. Each entry gets an inclusion proof against that root.
+ */
+export async function createBatchAttestation(
+  entries: BatchEntry[],
+  options: AttestationOptions = {}
+): Promise<BatchAttestationResult> {
+  const signer = resolveSigner(options);
+  const payer = await signer.getPublicKey();
+  const ts = Math.floor(Date.now() / 1000);
+
+  const leaves = entries.map(entry => buildAttestationLeaf(entry.subject, entry.agentAddress, ts));
+  const { root, proofs } = buildMerkleTree(leaves.map(hashLeaf));
+
+  const attestation: AttestationBatchMemo = {
+    type: 'poa-batch',
     version: '1.0',
-    agent: agentAddress,
-    name: agentName.substring(0, 32), // Limit name length
-    score,
+    root,
+    count: leaves.length,
+    verifier: payer.toBase58(),
+    ts
+  };
+
+  const published = await publishMemo(attestation, signer, options);
+
+  return {
+    ...published,
+    timestamp: ts,
+    memo: attestation,
+    inclusions: leaves.map((leaf, index) => ({
+      signature: published.signature,
+      root,
+      index,
+      leaf,
+      proof: proofs[index]
+    }))
+  };
+}
+
+/**
+ * Publish a revocation for an earlier attestation. Pass verificationId to
+ * revoke a single agent's leaf within a batch.
+ */
+export async function createRevocation(
+  signature: string,
+  reason: RevocationReason,
+  options: AttestationOptions & { verificationId?: string } = {}
+): Promise<PublishedMemo & { timestamp: number; memo: RevocationMemo }> {
+  const signer = resolveSigner(options);
+  const payer = await signer.getPublicKey();
+
+  const revocation: RevocationMemo = {
+    type: 'poa-revoke',
+    version: '1.0',
+    sig: signature,
+    vid: options.verificationId,
+    reason,
+    verifier: payer.toBase58(),
     ts: Math.floor(Date.now() / 1000)
   };
 
-  const memoText = JSON.stringify(attestation);
+  const published = await publishMemo(revocation, signer, options);
+
+  return {
+    ...published,
+    timestamp: revocation.ts,
+    memo: revocation
+  };
+}
+
+// Sign a memo transaction and send it (or return it unsent for a dry run)
+async function publishMemo(
+  memo: AttestationMemo,
+  signer: AttestationSigner,
+  options: AttestationOptions
+): Promise<PublishedMemo> {
+  const connection = options.connection || createConnection();
+  const payer = await signer.getPublicKey();
 
   // Create memo instruction
   const memoInstruction = new TransactionInstruction({
     keys: [],
     programId: MEMO_PROGRAM_ID,
-    data: Buffer.from(memoText)
+    data: Buffer.from(JSON.stringify(memo))
   });
 
-  // Build and send transaction
+  // Build and sign transaction
   const transaction = new Transaction().add(memoInstruction);
-  
-  const signature = await sendAndConfirmTransaction(
-    connection,
-    transaction,
-    [payer]
+  transaction.feePayer = payer;
+
+  const latest = options.dryRun && options.recentBlockhash
+    ? null
+    : await connection.getLatestBlockhash();
+  transaction.recentBlockhash = latest?.blockhash || options.recentBlockhash;
+
+  await signer.signTransaction(transaction);
+  const signature = encodeBase58(transaction.signature!);
+
+  if (options.dryRun) {
+    return {
+      signature,
+      slot: 0,
+      dryRun: true,
+      transaction: transaction.serialize().toString('base64')
+    };
+  }
+
+  await connection.sendRawTransaction(transaction.serialize());
+  const confirmation = await connection.confirmTransaction(
+    { signature, blockhash: latest!.blockhash, lastValidBlockHeight: latest!.lastValidBlockHeight },
+    'confirmed'
   );
 
-  const slot = await connection.getSlot();
+  if (confirmation.value.err) {
+    throw new Error(`Attestation transaction failed: ${JSON.stringify(confirmation.value.err)}`);
+  }
+
+  return { signature, slot: confirmation.context.slot };
+}
+
+// Build off-chain attestation info for a completed verification
+export function buildAttestationInfo(
+  agentId: string,
+  score: number,
+  checks: Record<string, boolean>,
+  completedAt: string,
+  validityDays: number = 30
+): AttestationInfo {
+  const hash = createHash('sha256')
+    .update(JSON.stringify({ agentId, score, checks, completedAt }))
+    .digest('hex');
+
+  const validUntil = new Date(
+    new Date(completedAt).getTime() + validityDays * 24 * 60 * 60 * 1000
+  ).toISOString();
 
   return {
-    signature,
-    slot,
-    timestamp: attestation.ts
+    hash,
+    validUntil,
+    expiresAt: validUntil,
+    onChain: false
   };
 }
 
-// Verify an existing attestation
-export async function verifyAttestation(
-  signature: string
-): Promise<{ valid: boolean; attestation?: any }> {
-  const connection = new Connection(
-    process.env.SOLANA_RPC_URL || 'https://api.devnet.solana.com',
-    'confirmed'
+/**
+ * Check a decoded memo is a PoA attestation of a version we understand
+ */
+export function parseAttestationMemo(memo: any): AttestationMemo | null {
+  if (memo?.type === 'poa-batch') {
+    return memo.version === '1.0' &&
+      typeof memo.root === 'string' &&
+      typeof memo.count === 'number' &&
+      typeof memo.verifier === 'string'
+      ? memo
+      : null;
+  }
+
+  if (memo?.type === 'poa-revoke') {
+    return memo.version === '1.0' &&
+      typeof memo.sig === 'string' &&
+      REVOCATION_REASONS.includes(memo.reason) &&
+      typeof memo.verifier === 'string'
+      ? memo
+      : null;
+  }
+
+  if (!memo || memo.type !== 'poa') {
+    return null;
+  }
+
+  if (memo.version === '1.0') {
+    return typeof memo.agent === 'string' && typeof memo.score === 'number' ? memo : null;
+  }
+
+  if (memo.version === '2.0') {
+    return typeof memo.vid === 'string' &&
+      typeof memo.agent === 'string' &&
+      typeof memo.score === 'number' &&
+      typeof memo.checks === 'string' &&
+      typeof memo.verifier === 'string'
+      ? memo
+      : null;
+  }
+
+  return null;
+}
+
+// Loaded once per configuration; the payer key file isn't re-read on every lookup
+let verifierKeys: { config: string; keys: Set<string> } | undefined;
+
+/**
+ * Public keys whose attestations we trust: VERIFIER_PUBLIC_KEYS plus our own
+ * local payer. A remote signer's key must be listed in VERIFIER_PUBLIC_KEYS.
+ */
+export function knownVerifierKeys(): Set<string> {
+  const config = [
+    process.env.VERIFIER_PUBLIC_KEYS,
+    process.env.PAYER_KEYPAIR_PATH,
+    process.env.PAYER_SECRET_KEY
+  ].join('\n');
+
+  if (verifierKeys?.config !== config) {
+    verifierKeys = { config, keys: loadVerifierKeys() };
+  }
+  return verifierKeys.keys;
+}
+
+function loadVerifierKeys(): Set<string> {
+  const keys = new Set(
+    (process.env.VERIFIER_PUBLIC_KEYS || '').split(',').map(key => key.trim()).filter(Boolean)
   );
 
+  const payerSecret = process.env.PAYER_KEYPAIR_PATH
+    ? readSecret(process.env.PAYER_KEYPAIR_PATH)
+    : process.env.PAYER_SECRET_KEY;
+  if (payerSecret) {
+    try {
+      keys.add(Keypair.fromSecretKey(Buffer.from(JSON.parse(payerSecret))).publicKey.toBase58());
+    } catch {
+      // Misconfigured payer - createAttestation reports it
+    }
+  }
+
+  return keys;
+}
+
+function readSecret(filePath: string): string | undefined {
+  try {
+    return fs.readFileSync(filePath, 'utf8');
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Decode a PoA memo from a fetched transaction's Memo-program instructions
+ * and check it was signed by a known verifier.
+ */
+export function decodeAttestationTransaction(
+  tx: VersionedTransactionResponse,
+  verifiers: Set<string> = knownVerifierKeys()
+): Omit<AttestationVerification, 'checksMatch' | 'expired'> {
+  const { message } = tx.transaction;
+  const accountKeys = message.staticAccountKeys;
+  const signers = accountKeys
+    .slice(0, message.header.numRequiredSignatures)
+    .map(key => key.toBase58());
+
+  if (tx.meta?.err) {
+    return { valid: false, reason: 'transaction_failed', error: JSON.stringify(tx.meta.err), signers };
+  }
+
+  // Program ids are always static keys, even in v0 messages
+  const memos = message.compiledInstructions
+    .filter(ix => {
+      const programId = accountKeys[ix.programIdIndex];
+      return !!programId && (programId.equals(MEMO_PROGRAM_ID) || programId.equals(LEGACY_MEMO_PROGRAM_ID));
+    })
+    .map(ix => Buffer.from(ix.data).toString('utf8'));
+
+  if (memos.length === 0) {
+    return { valid: false, reason: 'no_memo', signers };
+  }
+
+  // A transaction may carry other memos alongside ours; take the first PoA one
+  let attestation: AttestationMemo | null = null;
+  for (const memo of memos) {
+    try {
+      attestation = parseAttestationMemo(JSON.parse(memo));
+    } catch {
+      attestation = null;
+    }
+    if (attestation) break;
+  }
+
+  if (!attestation) {
+    return { valid: false, reason: 'invalid_memo', error: 'No PoA attestation memo found', signers };
+  }
+
+  if (!signers.some(signer => verifiers.has(signer))) {
+    return { valid: false, reason: 'unknown_signer', signers, version: attestation.version, attestation };
+  }
+
+  if ('verifier' in attestation && !(signers.includes(attestation.verifier) && verifiers.has(attestation.verifier))) {
+    return { valid: false, reason: 'verifier_mismatch', signers, version: attestation.version, attestation };
+  }
+
+  return { valid: true, signers, version: attestation.version, attestation };
+}
+
+/**
+ * Verify an existing attestation. Pass the stored verification to confirm
+ * the checks hash matches the result it claims to attest, and for a batch
+ * memo the agent's inclusion proof.
+ */
+export async function verifyAttestation(
+  signature: string,
+  options: VerifyAttestationOptions = {}
+): Promise<AttestationVerification> {
+  const connection = options.connection || createConnection();
+
+  let tx: VersionedTransactionResponse | null;
   try {
-    const tx = await connection.getTransaction(signature, {
+    tx = await connection.getTransaction(signature, {
       maxSupportedTransactionVersion: 0
     });
+  } catch (error: any) {
+    return { valid: false, reason: 'rpc_error', error: error.message };
+  }
 
-    if (!tx || !tx.meta) {
-      return { valid: false };
-    }
+  if (!tx) {
+    return { valid: false, reason: 'not_found' };
+  }
 
-    // Find memo instruction
-    const logs = tx.meta.logMessages || [];
-    const memoLog = logs.find(log => log.includes('Program log: Memo'));
-    
-    if (!memoLog) {
-      return { valid: false };
-    }
+  const decoded = decodeAttestationTransaction(tx);
+  if (!decoded.valid || !decoded.attestation) {
+    return decoded;
+  }
+
+  const checked = { ...decoded, ...checkAttestation(decoded.attestation, options.result, options.inclusion) };
+  const revocation = await findRevocation(signature, decoded.attestation, decoded.signers || [], options);
+
+  if (revocation.revoked) {
+    return { ...checked, ...revocation, valid: false, reason: 'revoked' };
+  }
+  return { ...checked, ...revocation };
+}
+
+/**
+ * Look for a revocation of this attestation by the verifier that issued it,
+ * syncing that verifier's memos into the index first.
+ */
+async function findRevocation(
+  signature: string,
+  attestation: AttestationMemo,
+  signers: string[],
+  options: VerifyAttestationOptions
+): Promise<Pick<AttestationVerification, 'revoked' | 'revocation' | 'revocationError'>> {
+  if (attestation.type === 'poa-revoke') {
+    return {};
+  }
 
-    // Extract memo data (rough parsing)
-    const memoMatch = memoLog.match(/Memo \(len \d+\): "(.*?)"/);
-    if (!memoMatch) {
-      return { valid: false };
+  const storage = options.storage || defaultIndex;
+  const issuer = 'verifier' in attestation
+    ? attestation.verifier
+    : signers.find(signer => knownVerifierKeys().has(signer));
+
+  let revocationError: string | undefined;
+  if (issuer) {
+    try {
+      await syncAttestations(issuer, { storage, connection: options.connection });
+    } catch (error: any) {
+      revocationError = error.message;
     }
+  }
+
+  // A revocation without vid withdraws the whole memo, batch included
+  const vid = attestation.type === 'poa-batch'
+    ? options.inclusion?.leaf.vid
+    : attestation.version === '2.0' ? attestation.vid : undefined;
+  const revocation = storage.getRevocations(signature).find(r =>
+    r.verifier === issuer && (!r.verificationId || r.verificationId === vid)
+  );
+
+  return { revoked: !!revocation, revocation, revocationError };
+}
 
-    const attestation = JSON.parse(memoMatch[1]);
-    
-    // Verify it's a PoA attestation
-    if (attestation.type !== 'poa') {
-      return { valid: false };
+// Compare a decoded memo with the stored result and its expiry
+export function checkAttestation(
+  attestation: AttestationMemo,
+  result?: AttestationSubject,
+  inclusion?: AttestationInclusion,
+  now: number = Date.now()
+): Omit<AttestationVerification, 'valid'> {
+  if (attestation.type === 'poa-batch') {
+    // Without a proof the memo only says "some agents were attested"
+    if (!inclusion) {
+      return { version: attestation.version, attestation };
     }
 
-    return { valid: true, attestation };
-  } catch (error) {
-    return { valid: false };
+    const included = inclusion.root === attestation.root &&
+      verifyMerkleProof(hashLeaf(inclusion.leaf), inclusion.proof, attestation.root);
+
+    return {
+      version: attestation.version,
+      attestation,
+      included,
+      leaf: inclusion.leaf,
+      ...compareLeaf(inclusion.leaf, result, now)
+    };
+  }
+
+  if (attestation.type === 'poa-revoke' || attestation.version === '1.0') {
+    return { version: attestation.version, attestation };
+  }
+
+  return {
+    version: attestation.version,
+    attestation,
+    ...compareLeaf(attestation, result, now)
+  };
+}
+
+function compareLeaf(
+  leaf: AttestationLeaf,
+  result: AttestationSubject | undefined,
+  now: number
+): Pick<AttestationVerification, 'checksMatch' | 'expired'> {
+  return {
+    checksMatch: result
+      ? result.id === leaf.vid && hashChecks(result.checks, result.details) === leaf.checks
+      : undefined,
+    expired: leaf.exp !== undefined ? leaf.exp * 1000 <= now : undefined
+  };
+}
+
+export interface AttestationSyncOptions {
+  storage?: Storage; // local index (in-memory by default)
+  connection?: Connection;
+  verifiers?: string[]; // addresses to scan (default: known verifier keys)
+  pageSize?: number;
+}
+
+// Used when the caller doesn't bring its own storage
+const defaultIndex = new MemoryStorage();
+
+// One sync per (index, address) at a time
+const inFlight = new WeakMap<Storage, Map<string, Promise<number>>>();
+
+// getTransactions batches are kept small to stay under RPC request limits
+const TX_BATCH_SIZE = 50;
+
+/**
+ * Scan a verifier's transactions newer than the stored cursor and index
+ * every PoA attestation it signed. Returns how many were added.
+ */
+export async function syncAttestations(
+  verifier: string,
+  options: AttestationSyncOptions = {}
+): Promise<number> {
+  const storage = options.storage || defaultIndex;
+  const running = inFlight.get(storage) || new Map<string, Promise<number>>();
+  inFlight.set(storage, running);
+
+  const existing = running.get(verifier);
+  if (existing) {
+    return existing;
+  }
+
+  const sync = scanVerifier(verifier, storage, options).finally(() => running.delete(verifier));
+  running.set(verifier, sync);
+  return sync;
+}
+
+async function scanVerifier(
+  verifier: string,
+  storage: Storage,
+  options: AttestationSyncOptions
+): Promise<number> {
+  const connection = options.connection || createConnection();
+  const address = new PublicKey(verifier);
+  const limit = options.pageSize || 1000;
+  const until = storage.getSyncCursor(verifier)?.lastSignature;
+
+  // Page newest to oldest until we reach the last signature already indexed
+  const signatures: string[] = [];
+  let newest: string | undefined;
+  let before: string | undefined;
+  for (;;) {
+    const page = await connection.getSignaturesForAddress(address, { before, until, limit });
+    newest = newest || page[0]?.signature;
+    signatures.push(...page.filter(info => !info.err).map(info => info.signature));
+
+    if (page.length < limit) break;
+    before = page[page.length - 1].signature;
   }
+
+  let added = 0;
+  const verifiers = new Set([verifier]);
+
+  for (let i = 0; i < signatures.length; i += TX_BATCH_SIZE) {
+    const batch = signatures.slice(i, i + TX_BATCH_SIZE);
+    const txs = await connection.getTransactions(batch, { maxSupportedTransactionVersion: 0 });
+
+    txs.forEach((tx, j) => {
+      if (!tx) return;
+
+      const decoded = decodeAttestationTransaction(tx, verifiers);
+      if (!decoded.valid || !decoded.attestation) return;
+
+      const signature = batch[j];
+      const memo = decoded.attestation;
+
+      if (memo.type === 'poa-revoke') {
+        storage.saveRevocation({
+          signature,
+          target: memo.sig,
+          verificationId: memo.vid,
+          reason: memo.reason,
+          verifier,
+          createdAt: new Date((tx.blockTime ?? memo.ts) * 1000).toISOString()
+        });
+        return;
+      }
+
+      // Batch memos name no agent: index the leaves we hold whose proofs reach the root.
+      // Leaves published by another server aren't known here and can't be indexed.
+      if (memo.type === 'poa-batch') {
+        for (const leaf of storage.getBatchLeaves(signature)) {
+          if (!leaf.inclusion || !verifyMerkleProof(hashLeaf(leaf.inclusion.leaf), leaf.inclusion.proof, memo.root)) {
+            continue;
+          }
+          storage.saveAttestation({ ...leaf, verifier, slot: tx.slot, memo });
+        }
+        return;
+      }
+
+      const known = storage.getAttestation(signature);
+
+      storage.saveAttestation({
+        ...known,
+        signature,
+        agentId: known?.agentId || memo.name,
+        agentAddress: memo.agent,
+        verificationId: known?.verificationId || (memo.version === '2.0' ? memo.vid : undefined),
+        verifier,
+        slot: tx.slot,
+        memo,
+        createdAt: known?.createdAt || new Date((tx.blockTime ?? memo.ts) * 1000).toISOString()
+      });
+
+      if (!known) added++;
+    });
+  }
+
+  // Only advance once everything up to the newest signature is indexed
+  if (newest) {
+    storage.saveSyncCursor({
+      address: verifier,
+      lastSignature: newest,
+      updatedAt: new Date().toISOString()
+    });
+  }
+
+  return added;
 }
 
-// Query attestations for an agent
+/**
+ * Attestations issued to an agent wallet, newest first. Syncs the local
+ * index from chain before answering.
+ */
 export async function getAgentAttestations(
-  agentAddress: string
-): Promise<any[]> {
-  // In production, this would query an indexer or use getSignaturesForAddress
-  // with memo parsing. For now, return empty.
-  return [];
+  agentAddress: string,
+  options: AttestationSyncOptions = {}
+): Promise<StoredAttestation[]> {
+  const storage = options.storage || defaultIndex;
+  const verifiers = options.verifiers || Array.from(knownVerifierKeys());
+
+  if (verifiers.length === 0) {
+    throw new Error('No verifier keys configured (set PAYER_SECRET_KEY or VERIFIER_PUBLIC_KEYS)');
+  }
+
+  for (const verifier of verifiers) {
+    await syncAttestations(verifier, { ...options, storage });
+  }
+
+  return storage.getAttestationsByAgent(agentAddress)
+    .filter(attestation => attestation.agentAddress === agentAddress)
+    .sort((a, b) => (b.slot ?? 0) - (a.slot ?? 0));
 }
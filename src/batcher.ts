@@ -0,0 +1,134 @@
+/**
+ * Accumulates verified agents and attests them together under one Merkle root memo.
+ * Pending agents are kept in storage until their memo is published, so a failed
+ * publish is retried and a restart doesn't lose them.
+ */
+
+import {
+  AttestationOptions,
+  AttestationSubject,
+  BatchAttestationResult,
+  BatchEntry,
+  createBatchAttestation
+} from './attestation';
+import { Storage } from './storage';
+
+export interface BatcherOptions {
+  maxBatchSize: number; // publish as soon as this many are pending
+  flushIntervalMs: number; // ...or this long after the first one arrived, and between retries
+  attestation: AttestationOptions;
+}
+
+export interface BatcherHandlers {
+  onPublished(batch: BatchAttestationResult, entries: BatchEntry[]): void;
+  onFailure(error: Error, entries: BatchEntry[]): void;
+}
+
+export const DEFAULT_BATCHER_OPTIONS: BatcherOptions = {
+  maxBatchSize: parseInt(process.env.ATTESTATION_BATCH_SIZE || '') || 1,
+  flushIntervalMs: parseInt(process.env.ATTESTATION_BATCH_INTERVAL_MS || '') || 60 * 1000,
+  attestation: {}
+};
+
+export class AttestationBatcher {
+  private storage: Storage;
+  private handlers: BatcherHandlers;
+  private options: BatcherOptions;
+  private pending: BatchEntry[] = [];
+  private publishing = 0; // entries in a memo being published
+  private timer?: NodeJS.Timeout;
+
+  constructor(storage: Storage, handlers: BatcherHandlers, options: Partial<BatcherOptions> = {}) {
+    this.storage = storage;
+    this.handlers = handlers;
+    this.options = { ...DEFAULT_BATCHER_OPTIONS, ...options };
+  }
+
+  // Waiting for a memo, including any being published now
+  get size(): number {
+    return this.pending.length + this.publishing;
+  }
+
+  /**
+   * Pick up entries left pending by a previous run. Returns how many.
+   */
+  resume(): number {
+    const known = new Set(this.pending.map(entry => entry.subject.id));
+    const stored = this.storage.listPendingAttestations().filter(pending => !known.has(pending.verificationId));
+    this.pending.push(...stored.map(pending => pending.entry));
+    this.schedule();
+    return stored.length;
+  }
+
+  add(subject: AttestationSubject, agentAddress: string): void {
+    // Snapshot the result so later edits to the record don't change the leaf
+    const entry: BatchEntry = {
+      subject: { ...subject, checks: { ...subject.checks }, details: subject.details && { ...subject.details } },
+      agentAddress
+    };
+    const now = new Date().toISOString();
+    this.storage.savePendingAttestation({
+      verificationId: subject.id,
+      entry,
+      status: 'pending',
+      createdAt: now,
+      updatedAt: now
+    });
+    this.pending.push(entry);
+    this.schedule();
+  }
+
+  /**
+   * Publish everything pending now. Resolves to null when there was nothing
+   * to publish or publishing failed (reported through onFailure); failed
+   * entries stay pending and are retried after flushIntervalMs.
+   */
+  async flush(): Promise<BatchAttestationResult | null> {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+
+    const entries = this.pending;
+    this.pending = [];
+    if (entries.length === 0) {
+      return null;
+    }
+
+    this.publishing += entries.length;
+    try {
+      const batch = await createBatchAttestation(entries, this.options.attestation);
+      const now = new Date().toISOString();
+      const stored = new Map(this.storage.listPendingAttestations().map(pending => [pending.verificationId, pending]));
+      for (const { subject } of entries) {
+        const pending = stored.get(subject.id);
+        if (pending) {
+          this.storage.savePendingAttestation({ ...pending, status: 'published', updatedAt: now });
+        }
+      }
+      this.handlers.onPublished(batch, entries);
+      return batch;
+    } catch (error: any) {
+      // Back in front of anything added meanwhile, for the next attempt
+      this.pending.unshift(...entries);
+      this.handlers.onFailure(error, entries);
+      this.schedule(true);
+      return null;
+    } finally {
+      this.publishing -= entries.length;
+    }
+  }
+
+  // Publish when the batch is full, otherwise after flushIntervalMs
+  private schedule(retry = false): void {
+    if (this.pending.length === 0) {
+      return;
+    }
+    if (!retry && this.pending.length >= this.options.maxBatchSize) {
+      this.flush();
+    } else if (!this.timer) {
+      this.timer = setTimeout(() => this.flush(), this.options.flushIntervalMs);
+      this.timer.unref();
+    }
+  }
+}
@@ -0,0 +1,18 @@
+/**
+ * Canonical JSON for hashing and signing
+ */
+
+// JSON with object keys sorted, so equal values always serialize the same
+export function canonicalize(value: any): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalize).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value)
+      .filter(key => value[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${canonicalize(value[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
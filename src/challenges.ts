@@ -0,0 +1,434 @@
+/**
+ * Declarative capability challenge suites
+ *
+ * Suites are JSON or YAML files (one per capability) describing the requests
+ * to send, a JSON Schema for each response and semantic assertions on it.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import axios from 'axios';
+import Ajv, { ValidateFunction } from 'ajv';
+import YAML from 'yaml';
+
+export type AssertionOp =
+  | 'exists'
+  | 'equals'
+  | 'oneOf'
+  | 'positive'
+  | 'between'
+  | 'minLength'
+  | 'maxLength'
+  | 'matches'
+  | 'within';
+
+export interface ChallengeAssertion {
+  id: string;
+  description?: string;
+  path: string | string[]; // dot path into the response; alternatives tried in order
+  op: AssertionOp;
+  value?: any; // for 'within': { target, tolerance }, relative to target unless target is 0
+  weight?: number; // share of the challenge's accuracy score (default 1)
+}
+
+export interface Challenge {
+  id: string;
+  method?: 'GET' | 'POST';
+  path: string;
+  body?: any;
+  fixtures?: Record<string, string>; // body field -> fixture name in <suite dir>/fixtures
+  timeout?: number;
+  schema?: object;
+  assertions?: ChallengeAssertion[];
+}
+
+export interface ChallengeSuite {
+  capability: string;
+  description?: string;
+  challenges: Challenge[];
+}
+
+export interface AssertionResult {
+  id: string;
+  passed: boolean;
+  message: string;
+  accuracy?: number;
+}
+
+export interface ChallengeResult {
+  id: string;
+  passed: boolean;
+  accuracy: number;
+  status?: number;
+  responseTime: number;
+  assertions: AssertionResult[];
+  data?: any;
+}
+
+export interface SuiteResult {
+  capability: string;
+  passed: boolean;
+  accuracy: number;
+  challenges: ChallengeResult[];
+}
+
+// Suite used for capabilities without their own file
+export const DEFAULT_SUITE = 'default';
+
+const SUITE_EXTENSIONS = ['.json', '.yaml', '.yml'];
+
+const ajv = new Ajv({ allErrors: true, strict: false });
+const suites = new Map<string, ChallengeSuite>();
+const validators = new Map<string, ValidateFunction>();
+const fixtures = new Map<string, any>();
+let loaded = false;
+
+const ASSERTION_OPS: AssertionOp[] = [
+  'exists', 'equals', 'oneOf', 'positive', 'between', 'minLength', 'maxLength', 'matches', 'within'
+];
+
+// Expected value shape per op; exists and positive take none
+const ASSERTION_VALUES: Partial<Record<AssertionOp, object>> = {
+  equals: {},
+  oneOf: { type: 'array', minItems: 1 },
+  between: { type: 'array', items: { type: 'number' }, minItems: 2, maxItems: 2 },
+  minLength: { type: 'integer', minimum: 0 },
+  maxLength: { type: 'integer', minimum: 0 },
+  matches: { type: 'string' },
+  within: {
+    type: 'object',
+    required: ['target', 'tolerance'],
+    properties: {
+      target: { type: 'number' },
+      tolerance: { type: 'number', exclusiveMinimum: 0 }
+    }
+  }
+};
+
+const stringOrPaths = {
+  anyOf: [
+    { type: 'string', minLength: 1 },
+    { type: 'array', items: { type: 'string', minLength: 1 }, minItems: 1 }
+  ]
+};
+
+const SUITE_SCHEMA = {
+  type: 'object',
+  required: ['capability', 'challenges'],
+  properties: {
+    capability: { type: 'string', minLength: 1 },
+    description: { type: 'string' },
+    challenges: {
+      type: 'array',
+      minItems: 1,
+      items: {
+        type: 'object',
+        required: ['id', 'path'],
+        properties: {
+          id: { type: 'string', minLength: 1 },
+          method: { enum: ['GET', 'POST'] },
+          path: { type: 'string', minLength: 1 },
+          fixtures: { type: 'object', additionalProperties: { type: 'string' } },
+          timeout: { type: 'number', exclusiveMinimum: 0 },
+          schema: { type: 'object' },
+          assertions: {
+            type: 'array',
+            items: {
+              type: 'object',
+              required: ['id', 'path', 'op'],
+              properties: {
+                id: { type: 'string', minLength: 1 },
+                description: { type: 'string' },
+                path: stringOrPaths,
+                op: { enum: ASSERTION_OPS },
+                weight: { type: 'number', minimum: 0 }
+              },
+              allOf: Object.entries(ASSERTION_VALUES).map(([op, value]) => ({
+                if: { properties: { op: { const: op } } },
+                then: { required: ['value'], properties: { value } }
+              }))
+            }
+          }
+        }
+      }
+    }
+  }
+};
+
+const validateSuiteSchema = ajv.compile(SUITE_SCHEMA);
+
+export function defaultChallengesDir(): string {
+  return process.env.CHALLENGES_DIR || path.resolve(__dirname, '../challenges');
+}
+
+/**
+ * Load every suite file in a directory, replacing any loaded before
+ */
+export function loadChallengeSuites(dir: string = defaultChallengesDir()): ChallengeSuite[] {
+  suites.clear();
+  validators.clear();
+  fixtures.clear();
+
+  const files = fs.existsSync(dir)
+    ? fs.readdirSync(dir).filter(f => SUITE_EXTENSIONS.includes(path.extname(f))).sort()
+    : [];
+
+  for (const file of files) {
+    const raw = fs.readFileSync(path.join(dir, file), 'utf8');
+    const suite = (path.extname(file) === '.json' ? JSON.parse(raw) : YAML.parse(raw)) as ChallengeSuite;
+
+    const invalid = validateSuite(suite);
+    if (invalid) {
+      throw new Error(`Invalid challenge suite ${file}: ${invalid}`);
+    }
+
+    for (const challenge of suite.challenges) {
+      for (const name of Object.values(challenge.fixtures || {})) {
+        if (!fixtures.has(name)) {
+          fixtures.set(name, loadFixture(dir, name));
+        }
+      }
+      if (challenge.schema) {
+        validators.set(`${suite.capability}/${challenge.id}`, ajv.compile(challenge.schema));
+      }
+    }
+    suites.set(suite.capability, suite);
+  }
+
+  loaded = true;
+  return Array.from(suites.values());
+}
+
+function loadFixture(dir: string, name: string): any {
+  const fixturePath = path.join(dir, 'fixtures', `${name}.json`);
+  if (!fs.existsSync(fixturePath)) {
+    throw new Error(`Missing challenge fixture: ${name}`);
+  }
+  return JSON.parse(fs.readFileSync(fixturePath, 'utf8'));
+}
+
+export function getChallengeSuite(capability: string): ChallengeSuite | undefined {
+  if (!loaded) {
+    loadChallengeSuites();
+  }
+  return suites.get(capability) || suites.get(DEFAULT_SUITE);
+}
+
+export function validateSuite(suite: ChallengeSuite): string | null {
+  if (!validateSuiteSchema(suite)) {
+    return ajv.errorsText(validateSuiteSchema.errors, { dataVar: 'suite' });
+  }
+  for (const challenge of suite.challenges) {
+    for (const assertion of challenge.assertions || []) {
+      if (assertion.op !== 'matches') continue;
+      try {
+        new RegExp(assertion.value, 'i');
+      } catch {
+        return `challenge ${challenge.id}: assertion ${assertion.id} has an invalid pattern`;
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Run every challenge in a suite against an agent
+ */
+export async function runChallengeSuite(
+  baseUrl: string,
+  suite: ChallengeSuite,
+  capability: string = suite.capability
+): Promise<SuiteResult> {
+  const results: ChallengeResult[] = [];
+
+  for (const challenge of suite.challenges) {
+    results.push(await runChallenge(baseUrl, suite, challenge, { capability }));
+  }
+
+  return {
+    capability,
+    passed: results.every(r => r.passed),
+    accuracy: results.reduce((sum, r) => sum + r.accuracy, 0) / results.length,
+    challenges: results
+  };
+}
+
+async function runChallenge(
+  baseUrl: string,
+  suite: ChallengeSuite,
+  challenge: Challenge,
+  vars: Record<string, string>
+): Promise<ChallengeResult> {
+  const start = Date.now();
+  const assertions: AssertionResult[] = [];
+
+  let response;
+  try {
+    response = await axios.request({
+      url: `${baseUrl}${challenge.path}`,
+      method: challenge.method || 'POST',
+      data: buildBody(challenge, vars),
+      timeout: challenge.timeout || 15000,
+      validateStatus: () => true // Accept any status
+    });
+  } catch (error: any) {
+    return {
+      id: challenge.id,
+      passed: false,
+      accuracy: 0,
+      responseTime: Date.now() - start,
+      assertions: [{ id: 'request', passed: false, message: error.message }]
+    };
+  }
+
+  const responseTime = Date.now() - start;
+  const ok = response.status >= 200 && response.status < 300;
+  assertions.push({
+    id: 'status',
+    passed: ok,
+    message: `HTTP ${response.status}`
+  });
+
+  const validate = validators.get(`${suite.capability}/${challenge.id}`);
+  if (validate) {
+    const valid = validate(response.data) as boolean;
+    assertions.push({
+      id: 'schema',
+      passed: valid,
+      message: valid ? 'Response matches schema' : ajv.errorsText(validate.errors)
+    });
+  }
+
+  // Status and schema gate the challenge; accuracy comes from semantic assertions only
+  const gatesPassed = assertions.every(a => a.passed);
+
+  let weighted = 0;
+  let totalWeight = 0;
+  for (const assertion of challenge.assertions || []) {
+    const result = evaluateAssertion(response.data, assertion);
+    const weight = assertion.weight ?? 1;
+    weighted += weight * (result.accuracy ?? (result.passed ? 1 : 0));
+    totalWeight += weight;
+    assertions.push(result);
+  }
+
+  const accuracy = !gatesPassed ? 0 : totalWeight > 0 ? weighted / totalWeight : 1;
+
+  return {
+    id: challenge.id,
+    passed: assertions.every(a => a.passed),
+    accuracy,
+    status: response.status,
+    responseTime,
+    assertions,
+    data: response.data
+  };
+}
+
+export function evaluateAssertion(data: any, assertion: ChallengeAssertion): AssertionResult {
+  const paths = Array.isArray(assertion.path) ? assertion.path : [assertion.path];
+  const found = paths.map(p => ({ path: p, value: getPath(data, p) })).find(f => f.value !== undefined);
+  const label = assertion.description || `${paths.join('|')} ${assertion.op}`;
+
+  const result = (passed: boolean, detail: string): AssertionResult => ({
+    id: assertion.id,
+    passed,
+    message: `${label}: ${detail}`
+  });
+
+  if (!found) {
+    return result(false, 'missing');
+  }
+
+  const { value } = found;
+  const expected = assertion.value;
+
+  switch (assertion.op) {
+    case 'exists':
+      return result(true, 'present');
+    case 'equals':
+      return result(value === expected, `got ${JSON.stringify(value)}`);
+    case 'oneOf': {
+      const normalized = typeof value === 'string' ? value.toLowerCase() : value;
+      const options = (expected as any[]).map(o => (typeof o === 'string' ? o.toLowerCase() : o));
+      return result(options.includes(normalized), `got ${JSON.stringify(value)}`);
+    }
+    case 'positive': {
+      const n = toNumber(value);
+      return result(n !== null && n > 0, `got ${JSON.stringify(value)}`);
+    }
+    case 'between': {
+      const n = toNumber(value);
+      const [min, max] = expected as [number, number];
+      return result(n !== null && n >= min && n <= max, `got ${JSON.stringify(value)}`);
+    }
+    case 'minLength':
+      return result(lengthOf(value) >= expected, `length ${lengthOf(value)}`);
+    case 'maxLength':
+      return result(lengthOf(value) <= expected, `length ${lengthOf(value)}`);
+    case 'within': {
+      // Full credit inside tolerance, falling to zero at three times the tolerance.
+      // A zero target has no relative error, so its tolerance is absolute.
+      const n = toNumber(value);
+      const { target, tolerance } = expected as { target: number; tolerance: number };
+      if (n === null) {
+        return { ...result(false, `got ${JSON.stringify(value)}`), accuracy: 0 };
+      }
+      const error = target === 0 ? Math.abs(n) : Math.abs(n - target) / Math.abs(target);
+      const accuracy = error <= tolerance ? 1 : Math.max(0, 1 - (error - tolerance) / (2 * tolerance));
+      const expectation = target === 0 ? `0 ±${tolerance}` : `${target} ±${tolerance * 100}%`;
+      return {
+        ...result(error <= tolerance, `got ${n}, expected ${expectation}`),
+        accuracy
+      };
+    }
+    case 'matches': {
+      const text = typeof value === 'string' ? value : JSON.stringify(value);
+      return result(new RegExp(expected, 'i').test(text), 'checked pattern');
+    }
+    default:
+      return result(false, `unknown op ${assertion.op}`);
+  }
+}
+
+function buildBody(challenge: Challenge, vars: Record<string, string>): any {
+  const body = interpolate(challenge.body, vars);
+  if (!challenge.fixtures) {
+    return body;
+  }
+
+  const withFixtures = { ...(body || {}) };
+  for (const [field, name] of Object.entries(challenge.fixtures)) {
+    withFixtures[field] = fixtures.get(name);
+  }
+  return withFixtures;
+}
+
+// Replace {{name}} placeholders in string values of a request body
+function interpolate(body: any, vars: Record<string, string>): any {
+  if (body === undefined) {
+    return undefined;
+  }
+  return JSON.parse(
+    JSON.stringify(body).replace(/\{\{(\w+)\}\}/g, (match, name) =>
+      name in vars ? JSON.stringify(vars[name]).slice(1, -1) : match
+    )
+  );
+}
+
+function getPath(data: any, dotPath: string): any {
+  return dotPath.split('.').reduce(
+    (current, key) => (current !== null && typeof current === 'object' ? current[key] : undefined),
+    data
+  );
+}
+
+// Numbers are often returned as strings (e.g. "142.50")
+function toNumber(value: any): number | null {
+  const n = typeof value === 'string' ? parseFloat(value) : value;
+  return typeof n === 'number' && isFinite(n) ? n : null;
+}
+
+function lengthOf(value: any): number {
+  return typeof value === 'string' || Array.isArray(value) ? value.length : 0;
+}
@@ -3,6 +3,13 @@
  */
 
 import axios, { AxiosInstance } from 'axios';
+import { verifyInclusionProof } from './merkle';
+import { CredentialVerification, DidDocument, verifyCredential } from './vc';
+import { AttestationInclusion, StarkProof } from './types';
+import { Predicate, formatPredicate, parsePredicate } from './predicates';
+import { traceSigningMessage } from './traces';
+
+export { StarkProof };
 
 export interface PoAClientOptions {
   network?: 'mainnet' | 'devnet';
@@ -13,12 +20,14 @@ export interface PoAClientOptions {
 export interface QuickVerifyRequest {
   agentId: string;
   apiEndpoint: string;
+  walletAddress?: string; // attested on chain and signs the agent's traces
 }
 
 export interface DeepVerifyRequest {
   agentId: string;
-  apiEndpoint?: string;
+  apiEndpoint: string;
   capabilities?: string[];
+  walletAddress?: string; // as QuickVerifyRequest.walletAddress
   codeUrl?: string;
   documentation?: boolean;
   testCoverage?: number;
@@ -26,6 +35,7 @@ export interface DeepVerifyRequest {
 }
 
 export interface VerificationResult {
+  verificationId?: string; // for /api/status/:id, its stream and cancel
   success: boolean;
   agentId: string;
   score: number;
@@ -35,11 +45,21 @@ export interface VerificationResult {
     hash: string;
     validUntil: string;
     expiresAt: string;
+    signature?: string;
+    inclusion?: AttestationInclusion; // batched attestations
   };
+  credential?: string; // VC-JWT signed by the server's issuer key
   behavioral?: {
     bonus: number;
     traceCount: number;
   };
+  profile?: {
+    p50: number;
+    p95: number;
+    p99: number;
+    errorRate: number;
+    throughput: number;
+  };
 }
 
 export interface VerificationStatus {
@@ -51,17 +71,44 @@ export interface VerificationStatus {
   attestation?: any;
 }
 
-export interface StarkProof {
-  valid: boolean;
-  meetsThreshold: boolean;
-  proof: {
-    commitment: string;
-    trace: string;
-    proofHash: string;
+export interface CredentialStatus {
+  verificationId: string;
+  status: 'active' | 'revoked' | 'expired';
+  expiresAt: string;
+  revocation?: {
+    signature: string;
+    reason: string;
+    revokedAt: string;
   };
-  publicInputs: {
-    threshold: number;
-    timestampVerified: number;
+}
+
+export interface VerificationProgressEvent {
+  type: 'status' | 'check.started' | 'check.finished' | 'check.skipped' | 'result';
+  verificationId: string;
+  at: string;
+  status?: string;
+  check?: string;
+  success?: boolean;
+  detail?: string;
+  durationMs?: number;
+  result?: any;
+}
+
+export interface StarkProofVerification {
+  valid: boolean; // proof checks out, not expired, source result not revoked
+  proofValid: boolean;
+  expired: boolean;
+  revoked: boolean;
+  proofHash: string;
+  agentId: string;
+  verificationId?: string;
+  publicInputs: StarkProof['publicInputs'];
+  createdAt: string;
+  expiresAt?: string;
+  revocation?: {
+    signature: string;
+    reason: string;
+    revokedAt: string;
   };
 }
 
@@ -124,6 +171,44 @@ export class PoAClient {
     return response.data;
   }
 
+  /**
+   * Stream live progress for a verification started with POST /api/verify.
+   * Yields an event as each check starts and finishes; ends after the 'result' event.
+   */
+  async *streamStatus(verificationId: string): AsyncGenerator<VerificationProgressEvent> {
+    const response = await this.http.get(`/api/status/${encodeURIComponent(verificationId)}/stream`, {
+      responseType: 'stream',
+      timeout: 0,
+      headers: { Accept: 'text/event-stream' }
+    });
+
+    let buffer = '';
+    for await (const chunk of response.data) {
+      buffer += chunk.toString();
+
+      let boundary: number;
+      while ((boundary = buffer.indexOf('\n\n')) >= 0) {
+        const raw = buffer.slice(0, boundary);
+        buffer = buffer.slice(boundary + 2);
+
+        const data = raw
+          .split('\n')
+          .filter(line => line.startsWith('data:'))
+          .map(line => line.slice(5).trim())
+          .join('\n');
+        if (!data) continue; // keepalive comment
+
+        const event: VerificationProgressEvent = JSON.parse(data);
+        yield event;
+
+        if (event.type === 'result') {
+          response.data.destroy();
+          return;
+        }
+      }
+    }
+  }
+
   /**
    * Get verification status for an agent
    */
@@ -141,36 +226,120 @@ export class PoAClient {
   }
 
   /**
-   * Generate STARK proof for threshold verification
+   * Fetch the issuer's DID document (cache it to verify credentials offline)
+   */
+  async getIssuerDocument(): Promise<DidDocument> {
+    const response = await this.http.get('/.well-known/did.json');
+    return response.data;
+  }
+
+  /**
+   * Verify a credential's signature and expiry against an issuer document
+   * fetched earlier - no network access
+   */
+  verifyCredential(credential: string, issuer: DidDocument, now: number = Date.now()): CredentialVerification {
+    return verifyCredential(credential, issuer, now);
+  }
+
+  /**
+   * Current status of the verification behind a credential
+   */
+  async getCredentialStatus(verificationId: string): Promise<CredentialStatus> {
+    const response = await this.http.get(`/api/credentials/${encodeURIComponent(verificationId)}/status`);
+    return response.data;
+  }
+
+  /**
+   * verifyCredential, then ask the server whether the verification has been
+   * revoked since the credential was issued
+   */
+  async checkCredential(credential: string, issuer: DidDocument, now: number = Date.now()): Promise<CredentialVerification> {
+    const verification = verifyCredential(credential, issuer, now);
+    const verificationId = verification.payload?.vc.credentialSubject.verificationId;
+    if (!verification.valid || !verificationId) {
+      return verification;
+    }
+
+    const { status } = await this.getCredentialStatus(verificationId);
+    if (status === 'revoked') {
+      return { valid: false, reason: 'revoked', payload: verification.payload };
+    }
+    return verification;
+  }
+
+  /**
+   * Check a batched attestation: the inclusion proof must hash up to its
+   * root, and that root must be the one in the batch memo on chain.
+   */
+  async verifyInclusion(inclusion: AttestationInclusion): Promise<{ valid: boolean; reason?: string }> {
+    if (!verifyInclusionProof(inclusion)) {
+      return { valid: false, reason: 'invalid_proof' };
+    }
+    if (!inclusion.signature) {
+      return { valid: false, reason: 'not_published' };
+    }
+
+    // The leaf's vid picks out this agent's entry, so its own revocation is found
+    const response = await this.http.get(`/api/attestations/${encodeURIComponent(inclusion.signature)}`, {
+      params: { verificationId: inclusion.leaf.vid }
+    });
+    const onChain = response.data;
+
+    if (!onChain.valid) {
+      return { valid: false, reason: onChain.reason };
+    }
+    if (onChain.attestation?.root !== inclusion.root) {
+      return { valid: false, reason: 'root_mismatch' };
+    }
+    return { valid: true };
+  }
+
+  /**
+   * Generate STARK proof for a score threshold, or for any predicate over the
+   * agent's latest verification result, e.g. 'tier >= good && passed(liveness)'
    */
   async generateProof(
     agentId: string, 
-    options: { threshold?: number; validityDays?: number } = {}
+    options: { threshold?: number; predicate?: Predicate | string; validityDays?: number } = {}
   ): Promise<StarkProof> {
+    // Malformed predicates fail here rather than on the server
+    const statement = options.predicate
+      ? { predicate: formatPredicate(parsePredicate(options.predicate)) }
+      : { threshold: options.threshold || 60 };
     const response = await this.http.post(`/api/stark/generate/${encodeURIComponent(agentId)}`, {
-      threshold: options.threshold || 60,
-      validityDays: options.validityDays || 30
+      ...statement,
+      validityDays: options.validityDays
     });
     return response.data;
   }
 
   /**
-   * Verify a STARK proof
+   * Verify a STARK proof registered with the server
    */
-  async verifyProof(proofHash: string): Promise<{ valid: boolean; details?: any }> {
+  async verifyProof(proofHash: string): Promise<StarkProofVerification> {
     const response = await this.http.post('/api/stark/verify', { proofHash });
     return response.data;
   }
 
   /**
-   * Submit execution trace for behavioral scoring
+   * Submit execution trace for behavioral scoring. `signMessage` signs with the
+   * wallet of the agent's latest verified result (a wallet adapter's signMessage works).
    */
-  async submitTrace(agentId: string, trace: ExecutionTrace): Promise<{
+  async submitTrace(
+    agentId: string,
+    trace: ExecutionTrace,
+    signMessage: (message: Uint8Array) => Promise<Uint8Array> | Uint8Array
+  ): Promise<{
     traceId: string;
     behavioralScore: number;
     totalBonus: number;
   }> {
-    const response = await this.http.post('/api/traces', { agentId, trace });
+    const signature = await signMessage(new TextEncoder().encode(traceSigningMessage(agentId, trace)));
+    const response = await this.http.post('/api/traces', {
+      agentId,
+      trace,
+      signature: encodeBase64(signature)
+    });
     return response.data;
   }
 
@@ -243,3 +412,10 @@ export class PoAClient {
 
 // Default export
 export default PoAClient;
+
+// Standard base64 without Buffer, which browsers lack
+function encodeBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary);
+}
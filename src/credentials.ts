@@ -0,0 +1,135 @@
+/**
+ * Verification results as Ed25519-signed W3C Verifiable Credentials (VC-JWT)
+ */
+
+import {
+  KeyObject,
+  JsonWebKey,
+  createPrivateKey,
+  createPublicKey,
+  generateKeyPairSync,
+  sign
+} from 'crypto';
+import fs from 'fs';
+import { CREDENTIAL_TYPE, CredentialPayload, DidDocument, VerifiableCredential } from './vc';
+
+// Verification has no Node dependencies and lives with the client-safe code
+export {
+  CREDENTIAL_TYPE,
+  CredentialPayload,
+  CredentialVerification,
+  DidDocument,
+  VerifiableCredential,
+  verifyCredential
+} from './vc';
+
+const VC_CONTEXT = 'https://www.w3.org/2018/credentials/v1';
+
+export interface IssuerKey {
+  did: string;
+  kid: string; // `${did}#key-1`
+  privateKey: KeyObject;
+  publicJwk: JsonWebKey;
+}
+
+/**
+ * Issuer key from CREDENTIAL_KEY_PATH (PKCS#8 PEM file) or
+ * CREDENTIAL_SIGNING_KEY (PEM in the env). Without either an ephemeral key
+ * is generated, and credentials stop verifying once the server restarts.
+ */
+export function loadIssuerKey(did: string = process.env.ISSUER_DID || 'did:web:youragent.id'): IssuerKey {
+  const pem = process.env.CREDENTIAL_KEY_PATH
+    ? fs.readFileSync(process.env.CREDENTIAL_KEY_PATH, 'utf8')
+    : process.env.CREDENTIAL_SIGNING_KEY;
+
+  let privateKey: KeyObject;
+  if (pem) {
+    privateKey = createPrivateKey(pem);
+  } else {
+    console.warn('No credential signing key configured; using an ephemeral key');
+    privateKey = generateKeyPairSync('ed25519').privateKey;
+  }
+
+  if (privateKey.asymmetricKeyType !== 'ed25519') {
+    throw new Error('Credential signing key must be Ed25519');
+  }
+
+  const { kty, crv, x } = createPublicKey(privateKey).export({ format: 'jwk' });
+
+  return {
+    did,
+    kid: `${did}#key-1`,
+    privateKey,
+    publicJwk: { kty, crv, x }
+  };
+}
+
+// https origin a did:web identifier resolves to (did:web:example.com%3A8443 -> https://example.com:8443)
+export function didWebUrl(did: string): string | undefined {
+  if (!did.startsWith('did:web:')) {
+    return undefined;
+  }
+  return `https://${did.slice('did:web:'.length).split(':').map(decodeURIComponent).join('/')}`;
+}
+
+export function buildDidDocument(key: IssuerKey): DidDocument {
+  return {
+    '@context': ['https://www.w3.org/ns/did/v1', 'https://w3id.org/security/suites/jws-2020/v1'],
+    id: key.did,
+    verificationMethod: [{
+      id: key.kid,
+      type: 'JsonWebKey2020',
+      controller: key.did,
+      publicKeyJwk: key.publicJwk
+    }],
+    assertionMethod: [key.kid]
+  };
+}
+
+function encodeSegment(value: any): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+/**
+ * Sign a credential as a compact JWS (VC-JWT, alg EdDSA)
+ */
+export function issueCredential(
+  key: IssuerKey,
+  id: string,
+  subject: Record<string, any> & { id: string },
+  issuedAt: string,
+  expiresAt: string,
+  statusUrl?: string
+): string {
+  const vc: VerifiableCredential = {
+    '@context': [VC_CONTEXT],
+    id,
+    type: ['VerifiableCredential', CREDENTIAL_TYPE],
+    issuer: key.did,
+    issuanceDate: issuedAt,
+    expirationDate: expiresAt,
+    credentialStatus: statusUrl ? { id: statusUrl, type: 'PoAVerificationStatus' } : undefined,
+    credentialSubject: subject
+  };
+
+  const payload: CredentialPayload = {
+    iss: key.did,
+    sub: subject.id,
+    jti: id,
+    nbf: Math.floor(Date.parse(issuedAt) / 1000),
+    exp: Math.floor(Date.parse(expiresAt) / 1000),
+    vc
+  };
+
+  return signJws(key, payload);
+}
+
+/**
+ * Sign a JSON payload as a compact JWS (alg EdDSA) under the issuer's key
+ */
+export function signJws(key: IssuerKey, payload: object): string {
+  const signingInput = `${encodeSegment({ alg: 'EdDSA', typ: 'JWT', kid: key.kid })}.${encodeSegment(payload)}`;
+  const signature = sign(null, Buffer.from(signingInput), key.privateKey).toString('base64url');
+
+  return `${signingInput}.${signature}`;
+}
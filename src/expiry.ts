@@ -0,0 +1,139 @@
+/**
+ * Verification validity windows, score decay and automatic re-verification
+ */
+
+import { VerificationLevel } from './types';
+import { Storage, VerificationRecord } from './storage';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function envNumber(name: string, fallback: number): number {
+  const value = parseFloat(process.env[name] || '');
+  return isNaN(value) ? fallback : value;
+}
+
+// Deeper verification stays valid longer
+export const VALIDITY_DAYS: Record<VerificationLevel, number> = {
+  basic: envNumber('VALIDITY_DAYS_BASIC', 7),
+  standard: envNumber('VALIDITY_DAYS_STANDARD', 30),
+  comprehensive: envNumber('VALIDITY_DAYS_COMPREHENSIVE', 90)
+};
+
+export interface DecayOptions {
+  pointsPerDay: number; // 0 disables decay
+  graceDays: number;
+}
+
+export const DEFAULT_DECAY_OPTIONS: DecayOptions = {
+  pointsPerDay: envNumber('SCORE_DECAY_PER_DAY', 0),
+  graceDays: envNumber('SCORE_DECAY_GRACE_DAYS', 7)
+};
+
+export function validityDaysFor(level?: string): number {
+  return VALIDITY_DAYS[level as VerificationLevel] ?? VALIDITY_DAYS.basic;
+}
+
+export function expiresAtFor(level: string | undefined, completedAt: string): string {
+  return new Date(Date.parse(completedAt) + validityDaysFor(level) * DAY_MS).toISOString();
+}
+
+export function isExpired(record: VerificationRecord, now: number = Date.now()): boolean {
+  return !!record.expiresAt && Date.parse(record.expiresAt) <= now;
+}
+
+/**
+ * Score after time-based decay: full score through the grace period, then
+ * pointsPerDay lost for each further day since completion.
+ */
+export function decayedScore(
+  record: VerificationRecord,
+  now: number = Date.now(),
+  options: DecayOptions = DEFAULT_DECAY_OPTIONS
+): number {
+  if (!record.completedAt || options.pointsPerDay <= 0) {
+    return record.score;
+  }
+
+  const ageDays = (now - Date.parse(record.completedAt)) / DAY_MS;
+  const staleDays = Math.max(0, ageDays - options.graceDays);
+  return Math.max(0, Math.round(record.score - staleDays * options.pointsPerDay));
+}
+
+export interface SchedulerOptions {
+  intervalMs: number;
+  leadTimeMs: number; // re-verify this long before expiry
+}
+
+export const DEFAULT_SCHEDULER_OPTIONS: SchedulerOptions = {
+  intervalMs: envNumber('REVERIFY_INTERVAL_MS', 60 * 60 * 1000),
+  leadTimeMs: envNumber('REVERIFY_BEFORE_HOURS', 24) * 60 * 60 * 1000
+};
+
+/**
+ * Periodically re-runs verification for agents whose latest result is
+ * close to expiry.
+ */
+export class ReverificationScheduler {
+  private storage: Storage;
+  private reverify: (record: VerificationRecord) => string | null;
+  private options: SchedulerOptions;
+  private timer?: NodeJS.Timeout;
+
+  constructor(
+    storage: Storage,
+    reverify: (record: VerificationRecord) => string | null,
+    options: Partial<SchedulerOptions> = {}
+  ) {
+    this.storage = storage;
+    this.reverify = reverify;
+    this.options = { ...DEFAULT_SCHEDULER_OPTIONS, ...options };
+  }
+
+  start(): void {
+    this.stop();
+    this.timer = setInterval(() => this.tick(), this.options.intervalMs);
+    this.timer.unref();
+    this.tick();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  /**
+   * Schedule re-verification for every due agent; returns new verification ids
+   */
+  tick(now: number = Date.now()): string[] {
+    const due = this.storage.listExpiringBefore(new Date(now + this.options.leadTimeMs).toISOString());
+    const scheduled: string[] = [];
+
+    for (const record of due) {
+      if (record.reverificationId || !this.isLatest(record)) {
+        continue;
+      }
+
+      const id = this.reverify(record);
+      if (id) {
+        record.reverificationId = id;
+        this.storage.saveVerification(record);
+        scheduled.push(id);
+      }
+    }
+
+    return scheduled;
+  }
+
+  // Skip records superseded by a newer run (finished or still in flight)
+  private isLatest(record: VerificationRecord): boolean {
+    const runs = this.storage.getVerificationsByAgent(record.agentName);
+    return runs.every(run =>
+      run.id === record.id ||
+      run.createdAt <= record.createdAt ||
+      run.status === 'failed' ||
+      run.status === 'cancelled'
+    );
+  }
+}
@@ -0,0 +1,376 @@
+/**
+ * M31 field arithmetic, its degree-4 extension QM31 and polynomial tools for the STARK prover
+ *
+ * M31's multiplicative group has almost no 2-adic structure (p - 1 = 2 * odd),
+ * so FFT domains and challenges live in QM31 = CM31[u] / (u^2 - (2 + i)),
+ * CM31 = M31[i] / (i^2 + 1). Its group order p^4 - 1 is divisible by 2^33.
+ */
+
+import crypto from 'crypto';
+
+// M31 Prime: 2^31 - 1
+const M31_PRIME = BigInt(2147483647);
+
+/**
+ * M31 Field arithmetic operations
+ */
+export const M31 = {
+  PRIME: M31_PRIME,
+
+  mod(n: bigint): bigint {
+    const result = n % M31_PRIME;
+    return result < 0n ? result + M31_PRIME : result;
+  },
+
+  add(a: bigint, b: bigint): bigint {
+    return this.mod(a + b);
+  },
+
+  sub(a: bigint, b: bigint): bigint {
+    return this.mod(a - b + M31_PRIME);
+  },
+
+  mul(a: bigint, b: bigint): bigint {
+    return this.mod(a * b);
+  },
+
+  pow(base: bigint, exp: bigint): bigint {
+    let result = 1n;
+    base = this.mod(base);
+    while (exp > 0n) {
+      if (exp % 2n === 1n) {
+        result = this.mul(result, base);
+      }
+      exp = exp / 2n;
+      base = this.mul(base, base);
+    }
+    return result;
+  },
+
+  inv(a: bigint): bigint {
+    return this.pow(a, M31_PRIME - 2n);
+  }
+};
+
+// Number-based M31 for the prover's hot loops
+export const P = 2147483647;
+
+export function mAdd(a: number, b: number): number {
+  const s = a + b;
+  return s >= P ? s - P : s;
+}
+
+export function mSub(a: number, b: number): number {
+  const s = a - b;
+  return s < 0 ? s + P : s;
+}
+
+const TWO_31 = 2 ** 31;
+// Hot paths avoid global lookups, which are slow inside vm contexts (jest)
+const floor = Math.floor;
+
+// x mod p for 0 <= x < 2^53, folding the high bits down since 2^31 = 1 (mod p).
+// Floating-point % is several times slower.
+export function mReduce(x: number): number {
+  const high = floor(x / TWO_31);
+  const r = x - high * TWO_31 + high;
+  return r >= P ? r - P : r;
+}
+
+// 16-bit limbs: a * b = hi * 2^32 + mid * 2^16 + lo, and 2^32 = 2 (mod p)
+export function mMul(a: number, b: number): number {
+  const a0 = a & 0xffff, a1 = a >>> 16, b0 = b & 0xffff, b1 = b >>> 16;
+  const lo = a0 * b0;
+  const mid = a1 * b0 + a0 * b1;
+  const sum = 2 * a1 * b1 + (mid >>> 15) + ((mid & 0x7fff) << 16) + (lo >>> 31) + (lo & 0x7fffffff);
+  // sum < 2^33: its low 31 bits plus the overflow
+  const r = (sum & 0x7fffffff) + floor(sum / TWO_31);
+  return r >= P ? r - P : r;
+}
+
+export function mPow(base: number, exp: number): number {
+  let result = 1;
+  while (exp > 0) {
+    if (exp % 2 === 1) result = mMul(result, base);
+    base = mMul(base, base);
+    exp = Math.floor(exp / 2);
+  }
+  return result;
+}
+
+export function mInv(a: number): number {
+  if (a === 0) throw new Error('Inverse of zero');
+  return mPow(a, P - 2);
+}
+
+export function isElement(value: any): value is number {
+  return Number.isInteger(value) && value >= 0 && value < P;
+}
+
+// Reduce any integer (possibly negative) into M31
+export function mFrom(n: number): number {
+  const r = n % P;
+  return r < 0 ? r + P : r;
+}
+
+// Uniform field elements from the system CSPRNG
+export function randomElements(count: number): number[] {
+  const elements: number[] = [];
+  while (elements.length < count) {
+    const bytes = crypto.randomBytes(4 * (count - elements.length));
+    for (let i = 0; i < bytes.length; i += 4) {
+      const value = bytes.readUInt32LE(i) & 0x7fffffff;
+      if (value < P) elements.push(value);
+    }
+  }
+  return elements;
+}
+
+export type CM31 = [number, number];
+export type QM31 = [number, number, number, number];
+
+export const C = {
+  add(a: CM31, b: CM31): CM31 {
+    return [mAdd(a[0], b[0]), mAdd(a[1], b[1])];
+  },
+
+  sub(a: CM31, b: CM31): CM31 {
+    return [mSub(a[0], b[0]), mSub(a[1], b[1])];
+  },
+
+  mul(a: CM31, b: CM31): CM31 {
+    return [
+      mSub(mMul(a[0], b[0]), mMul(a[1], b[1])),
+      mAdd(mMul(a[0], b[1]), mMul(a[1], b[0]))
+    ];
+  },
+
+  // -1 is a non-residue mod p, so the norm is zero only for zero
+  inv(a: CM31): CM31 {
+    const norm = mInv(mAdd(mMul(a[0], a[0]), mMul(a[1], a[1])));
+    return [mMul(a[0], norm), mMul(mSub(0, a[1]), norm)];
+  },
+
+  pow(base: CM31, exp: number): CM31 {
+    let result: CM31 = [1, 0];
+    while (exp > 0) {
+      if (exp % 2 === 1) result = C.mul(result, base);
+      base = C.mul(base, base);
+      exp = Math.floor(exp / 2);
+    }
+    return result;
+  },
+
+  // Multiply by the extension's non-residue R = 2 + i
+  mulR(a: CM31): CM31 {
+    return [mSub(mAdd(a[0], a[0]), a[1]), mAdd(a[0], mAdd(a[1], a[1]))];
+  },
+
+  eq(a: CM31, b: CM31): boolean {
+    return a[0] === b[0] && a[1] === b[1];
+  }
+};
+
+export const Q = {
+  ZERO: [0, 0, 0, 0] as QM31,
+  ONE: [1, 0, 0, 0] as QM31,
+
+  from(n: number): QM31 {
+    return [mFrom(n), 0, 0, 0];
+  },
+
+  fromC(c: CM31): QM31 {
+    return [c[0], c[1], 0, 0];
+  },
+
+  add(a: QM31, b: QM31): QM31 {
+    return [mAdd(a[0], b[0]), mAdd(a[1], b[1]), mAdd(a[2], b[2]), mAdd(a[3], b[3])];
+  },
+
+  sub(a: QM31, b: QM31): QM31 {
+    return [mSub(a[0], b[0]), mSub(a[1], b[1]), mSub(a[2], b[2]), mSub(a[3], b[3])];
+  },
+
+  neg(a: QM31): QM31 {
+    return Q.sub(Q.ZERO, a);
+  },
+
+  mul(a: QM31, b: QM31): QM31 {
+    const a0: CM31 = [a[0], a[1]];
+    const a1: CM31 = [a[2], a[3]];
+    const b0: CM31 = [b[0], b[1]];
+    const b1: CM31 = [b[2], b[3]];
+    const lo = C.add(C.mul(a0, b0), C.mulR(C.mul(a1, b1)));
+    const hi = C.add(C.mul(a0, b1), C.mul(a1, b0));
+    return [lo[0], lo[1], hi[0], hi[1]];
+  },
+
+  // Cheaper product when one side is in CM31 (domain points, twiddles)
+  mulC(a: QM31, c: CM31): QM31 {
+    const lo = C.mul([a[0], a[1]], c);
+    const hi = C.mul([a[2], a[3]], c);
+    return [lo[0], lo[1], hi[0], hi[1]];
+  },
+
+  mulBase(a: QM31, n: number): QM31 {
+    return [mMul(a[0], n), mMul(a[1], n), mMul(a[2], n), mMul(a[3], n)];
+  },
+
+  inv(a: QM31): QM31 {
+    const a0: CM31 = [a[0], a[1]];
+    const a1: CM31 = [a[2], a[3]];
+    // (a0 + a1 u)^-1 = (a0 - a1 u) / (a0^2 - R a1^2)
+    const denom = C.inv(C.sub(C.mul(a0, a0), C.mulR(C.mul(a1, a1))));
+    const lo = C.mul(a0, denom);
+    const hi = C.mul(C.sub([0, 0], a1), denom);
+    return [lo[0], lo[1], hi[0], hi[1]];
+  },
+
+  pow(base: QM31, exp: number): QM31 {
+    let result = Q.ONE;
+    while (exp > 0) {
+      if (exp % 2 === 1) result = Q.mul(result, base);
+      base = Q.mul(base, base);
+      exp = Math.floor(exp / 2);
+    }
+    return result;
+  },
+
+  random(): QM31 {
+    return randomElements(4) as QM31;
+  },
+
+  eq(a: QM31, b: QM31): boolean {
+    return a[0] === b[0] && a[1] === b[1] && a[2] === b[2] && a[3] === b[3];
+  },
+
+  isValid(a: any): a is QM31 {
+    return Array.isArray(a) && a.length === 4 && a.every(isElement);
+  }
+};
+
+// Element of order 2^32 in CM31*: (t + i)^((p^2 - 1) / 2^32) for the first t that works
+const TWO_ADIC_BITS = 32;
+const TWO_ADIC_GENERATOR: CM31 = (() => {
+  for (let t = 2; ; t++) {
+    const g = C.pow([t, 1], 2 ** 30 - 1);
+    let check = g;
+    for (let i = 0; i < TWO_ADIC_BITS - 1; i++) check = C.mul(check, check);
+    if (C.eq(check, [P - 1, 0])) return g;
+  }
+})();
+
+/**
+ * Primitive 2^logSize-th root of unity
+ */
+export function rootOfUnity(logSize: number): CM31 {
+  if (logSize > TWO_ADIC_BITS) {
+    throw new Error(`No root of unity of order 2^${logSize}`);
+  }
+  let root = TWO_ADIC_GENERATOR;
+  for (let i = logSize; i < TWO_ADIC_BITS; i++) root = C.mul(root, root);
+  return root;
+}
+
+// Coset offset for evaluation domains; not a 2-power root of unity, so the
+// coset never meets the trace domain
+export const DOMAIN_SHIFT: CM31 = [3, 0];
+
+export function log2(n: number): number {
+  const log = Math.log2(n);
+  if (!Number.isInteger(log)) throw new Error(`${n} is not a power of two`);
+  return log;
+}
+
+/**
+ * Points shift * root^j for j < size
+ */
+export function domainPoints(size: number, shift: CM31 = [1, 0]): CM31[] {
+  const root = rootOfUnity(log2(size));
+  const points: CM31[] = [];
+  let x = shift;
+  for (let j = 0; j < size; j++) {
+    points.push(x);
+    x = C.mul(x, root);
+  }
+  return points;
+}
+
+// In-place radix-2 FFT evaluating coeffs at root^j
+function fft(values: QM31[], root: CM31): QM31[] {
+  const n = values.length;
+  const out = values.slice();
+
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) [out[i], out[j]] = [out[j], out[i]];
+  }
+
+  for (let len = 2; len <= n; len <<= 1) {
+    const step = C.pow(root, n / len);
+    for (let start = 0; start < n; start += len) {
+      let w: CM31 = [1, 0];
+      for (let k = 0; k < len / 2; k++) {
+        const u = out[start + k];
+        const v = Q.mulC(out[start + k + len / 2], w);
+        out[start + k] = Q.add(u, v);
+        out[start + k + len / 2] = Q.sub(u, v);
+        w = C.mul(w, step);
+      }
+    }
+  }
+
+  return out;
+}
+
+/**
+ * Coefficients of the polynomial taking these values on shift * <root of size n>
+ */
+export function interpolate(values: QM31[], shift: CM31 = [1, 0]): QM31[] {
+  const n = values.length;
+  const coeffs = fft(values, C.inv(rootOfUnity(log2(n))));
+  const nInv = mInv(n);
+  const shiftInv = C.inv(shift);
+
+  let factor: CM31 = [nInv, 0];
+  return coeffs.map(coeff => {
+    const scaled = Q.mulC(coeff, factor);
+    factor = C.mul(factor, shiftInv);
+    return scaled;
+  });
+}
+
+/**
+ * Evaluate a polynomial on shift * <root of size> (size >= coefficient count)
+ */
+export function evaluateOnDomain(coeffs: QM31[], size: number, shift: CM31 = [1, 0]): QM31[] {
+  if (coeffs.length > size) {
+    throw new Error('Domain smaller than polynomial');
+  }
+
+  const padded: QM31[] = [];
+  let factor: CM31 = [1, 0];
+  for (let j = 0; j < size; j++) {
+    padded.push(j < coeffs.length ? Q.mulC(coeffs[j], factor) : Q.ZERO);
+    factor = C.mul(factor, shift);
+  }
+
+  return fft(padded, rootOfUnity(log2(size)));
+}
+
+export function evaluateAt(coeffs: QM31[], x: QM31): QM31 {
+  let result = Q.ZERO;
+  for (let j = coeffs.length - 1; j >= 0; j--) {
+    result = Q.add(Q.mul(result, x), coeffs[j]);
+  }
+  return result;
+}
+
+// Highest non-zero coefficient index + 1
+export function degreeBound(coeffs: QM31[]): number {
+  let n = coeffs.length;
+  while (n > 0 && Q.eq(coeffs[n - 1], Q.ZERO)) n--;
+  return n;
+}
@@ -0,0 +1,295 @@
+/**
+ * Fiat-Shamir transcript, Merkle vector commitments and the FRI low-degree test
+ */
+
+import {
+  C,
+  CM31,
+  P,
+  Q,
+  QM31,
+  degreeBound,
+  domainPoints,
+  evaluateAt,
+  interpolate,
+  isElement,
+  log2,
+  mInv,
+  randomElements,
+  rootOfUnity
+} from './field';
+import { bytesToElements, digestToHex, hexToDigest, poseidon2Compress, poseidon2Hash } from './poseidon2';
+
+// Transcript input tags
+const BYTES = 0;
+const FIELD = 1;
+const SQUEEZE = 2;
+
+/**
+ * Public-coin transcript: everything the prover sends is absorbed, and every
+ * challenge is derived from what has been absorbed so far
+ */
+export class Transcript {
+  private state: number[];
+
+  constructor(label: string) {
+    this.state = poseidon2Hash([BYTES, label.length, ...bytesToElements(Buffer.from(label))]);
+  }
+
+  absorb(data: Buffer | string): void {
+    const bytes = typeof data === 'string' ? Buffer.from(data) : data;
+    this.mix([BYTES, bytes.length, ...bytesToElements(bytes)]);
+  }
+
+  absorbField(values: QM31[]): void {
+    this.mix([FIELD, values.length, ...values.flat()]);
+  }
+
+  // Current state; after the last challenge it binds the whole proof
+  digest(): string {
+    return digestToHex(this.state);
+  }
+
+  private mix(elements: number[]): void {
+    this.state = poseidon2Hash([...this.state, ...elements]);
+  }
+
+  private squeeze(): number[] {
+    this.mix([SQUEEZE]);
+    return this.state;
+  }
+
+  challenge(): QM31 {
+    return this.squeeze().slice(0, 4) as QM31;
+  }
+
+  indices(count: number, size: number): number[] {
+    const result: number[] = [];
+    while (result.length < count) {
+      for (const element of this.squeeze()) {
+        if (result.length < count) result.push(element % size);
+      }
+    }
+    return result;
+  }
+}
+
+export interface MerkleOpening {
+  values: QM31[];
+  salt?: number[];
+  path: string[];
+}
+
+// Random field elements hashed into each leaf of a salted tree
+const SALT_SIZE = 8;
+
+/**
+ * Merkle tree over rows of field elements: leaves are sponge hashes of the
+ * row, nodes the Poseidon2 2-to-1 compression of their children. Salted trees
+ * hash fresh randomness into every leaf, so sibling hashes on an opening's
+ * path say nothing about the rows that stay closed.
+ */
+export class VectorCommitment {
+  readonly root: string;
+  private rows: QM31[][];
+  private salts?: number[][];
+  private layers: number[][][];
+
+  constructor(rows: QM31[][], salted: boolean = false) {
+    this.rows = rows;
+    this.salts = salted ? rows.map(() => randomElements(SALT_SIZE)) : undefined;
+    this.layers = [rows.map((row, i) => hashRow(row, this.salts?.[i]))];
+    while (this.layers[this.layers.length - 1].length > 1) {
+      const level = this.layers[this.layers.length - 1];
+      const next: number[][] = [];
+      for (let i = 0; i < level.length; i += 2) {
+        next.push(hashNode(level[i], level[i + 1]));
+      }
+      this.layers.push(next);
+    }
+    this.root = digestToHex(this.layers[this.layers.length - 1][0]);
+  }
+
+  open(index: number): MerkleOpening {
+    const path: string[] = [];
+    let position = index;
+    for (let level = 0; level < this.layers.length - 1; level++) {
+      path.push(digestToHex(this.layers[level][position ^ 1]));
+      position >>= 1;
+    }
+    return { values: this.rows[index], salt: this.salts?.[index], path };
+  }
+}
+
+function hashRow(values: QM31[], salt: number[] = []): number[] {
+  return poseidon2Hash([...values.flat(), ...salt]);
+}
+
+function hashNode(left: number[], right: number[]): number[] {
+  return poseidon2Compress(left, right);
+}
+
+export function verifyOpening(
+  root: string,
+  index: number,
+  opening: MerkleOpening,
+  width: number,
+  size: number,
+  salted: boolean = false
+): boolean {
+  if (!Array.isArray(opening?.values) || !Array.isArray(opening.path)) return false;
+  if (opening.values.length !== width || !opening.values.every(Q.isValid)) return false;
+  if (opening.path.length !== Math.log2(size)) return false;
+  if (salted
+    ? !Array.isArray(opening.salt) || opening.salt.length !== SALT_SIZE || !opening.salt.every(isElement)
+    : opening.salt !== undefined) {
+    return false;
+  }
+
+  let hash = hashRow(opening.values, opening.salt);
+  let position = index;
+  for (const sibling of opening.path) {
+    const siblingHash = typeof sibling === 'string' ? hexToDigest(sibling) : null;
+    if (!siblingHash) return false;
+    hash = position & 1 ? hashNode(siblingHash, hash) : hashNode(hash, siblingHash);
+    position >>= 1;
+  }
+  return digestToHex(hash) === root;
+}
+
+export interface FriOptions {
+  queries: number;
+  finalDegree: number; // stop folding once the degree bound is this small
+}
+
+export interface FriProof {
+  layerRoots: string[];
+  finalPoly: QM31[];
+  // Per query, per layer: the leaf holding f(x) and f(-x)
+  queries: MerkleOpening[][];
+}
+
+/**
+ * Each layer folds f(x) into f_even(x^2) + beta * f_odd(x^2), halving both the
+ * domain and the degree bound. The final layer is sent as coefficients.
+ */
+export function proveFri(
+  transcript: Transcript,
+  evaluations: QM31[],
+  shift: CM31,
+  degree: number,
+  options: FriOptions
+): { proof: FriProof; positions: number[] } {
+  const layers: VectorCommitment[] = [];
+  const layerRoots: string[] = [];
+  let values = evaluations;
+  let domainShift = shift;
+
+  while (degree > options.finalDegree) {
+    const half = values.length / 2;
+    const layer = new VectorCommitment(values.slice(0, half).map((value, j) => [value, values[j + half]]));
+    layers.push(layer);
+    layerRoots.push(layer.root);
+    transcript.absorb(layer.root);
+
+    const beta = transcript.challenge();
+    values = foldLayer(values, domainPoints(values.length, domainShift), beta);
+    domainShift = C.mul(domainShift, domainShift);
+    degree /= 2;
+  }
+
+  const finalPoly = interpolate(values, domainShift).slice(0, degree);
+  transcript.absorbField(finalPoly);
+
+  const positions = transcript.indices(options.queries, evaluations.length / 2);
+  // Layer k has evaluations.length >> k points; a pair sits at position mod half
+  const queries = positions.map(position =>
+    layers.map((layer, k) => layer.open(position % (evaluations.length >> (k + 1))))
+  );
+
+  return { proof: { layerRoots, finalPoly, queries }, positions };
+}
+
+function foldLayer(values: QM31[], points: CM31[], beta: QM31): QM31[] {
+  const half = values.length / 2;
+  const folded: QM31[] = [];
+  for (let j = 0; j < half; j++) {
+    folded.push(foldPair(values[j], values[j + half], points[j], beta));
+  }
+  return folded;
+}
+
+const HALF = mInv(2);
+
+function foldPair(fx: QM31, fNegX: QM31, x: CM31, beta: QM31): QM31 {
+  const even = Q.mulBase(Q.add(fx, fNegX), HALF);
+  const odd = Q.mulC(Q.mulBase(Q.sub(fx, fNegX), HALF), C.inv(x));
+  return Q.add(even, Q.mul(beta, odd));
+}
+
+/**
+ * Replay the folding at the transcript's query positions. The caller checks
+ * that each query's first-layer values match the committed codeword and gets
+ * the positions back to do so.
+ */
+export function verifyFri(
+  transcript: Transcript,
+  proof: FriProof,
+  size: number,
+  shift: CM31,
+  degree: number,
+  options: FriOptions
+): { valid: boolean; positions?: number[]; firstLayer?: QM31[][] } {
+  const betas: QM31[] = [];
+  let layerCount = 0;
+  for (let d = degree; d > options.finalDegree; d /= 2) layerCount++;
+
+  if (!Array.isArray(proof?.layerRoots) || proof.layerRoots.length !== layerCount) return { valid: false };
+  if (!Array.isArray(proof.finalPoly) || !proof.finalPoly.every(Q.isValid)) return { valid: false };
+  if (!Array.isArray(proof.queries) || proof.queries.length !== options.queries) return { valid: false };
+
+  for (const root of proof.layerRoots) {
+    transcript.absorb(root);
+    betas.push(transcript.challenge());
+  }
+
+  const finalDegree = degree >> layerCount;
+  if (degreeBound(proof.finalPoly) > finalDegree) return { valid: false };
+  transcript.absorbField(proof.finalPoly);
+
+  const positions = transcript.indices(options.queries, size / 2);
+  const firstLayer: QM31[][] = [];
+
+  for (let q = 0; q < positions.length; q++) {
+    const openings = proof.queries[q];
+    if (!Array.isArray(openings) || openings.length !== layerCount) return { valid: false };
+
+    let layerSize = size;
+    let layerShift = shift;
+    let index = positions[q]; // index into the full layer; f(x) lives at index % half
+    let expected: QM31 | null = null;
+
+    for (let layer = 0; layer < layerCount; layer++) {
+      const half = layerSize / 2;
+      const leaf = index % half;
+      const opening = openings[layer];
+      if (!verifyOpening(proof.layerRoots[layer], leaf, opening, 2, half)) return { valid: false };
+
+      // The value folded from the previous layer must be the one committed here
+      if (expected && !Q.eq(opening.values[index < half ? 0 : 1], expected)) return { valid: false };
+      if (layer === 0) firstLayer.push(opening.values);
+
+      const x = C.mul(layerShift, C.pow(rootOfUnity(log2(layerSize)), leaf));
+      expected = foldPair(opening.values[0], opening.values[1], x, betas[layer]);
+
+      index = leaf;
+      layerSize = half;
+      layerShift = C.mul(layerShift, layerShift);
+    }
+
+    const x = Q.fromC(C.mul(layerShift, C.pow(rootOfUnity(log2(layerSize)), index)));
+    if (!expected || !Q.eq(evaluateAt(proof.finalPoly, x), expected)) return { valid: false };
+  }
+
+  return { valid: true, positions, firstLayer };
+}
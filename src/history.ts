@@ -0,0 +1,152 @@
+/**
+ * Per-agent verification history and run-to-run diffs
+ */
+
+import { VerificationRecord } from './storage';
+import { TIER_RANK } from './types';
+
+export interface CheckLatencyChange {
+  from: number;
+  to: number;
+  delta: number;
+}
+
+export interface RunDiff {
+  from: string;
+  to: string;
+  scoreDelta: number;
+  tierChanged: boolean;
+  newlyFailing: string[];
+  newlyPassing: string[];
+  addedChecks: string[];
+  removedChecks: string[];
+  latency: Record<string, CheckLatencyChange>;
+  p95Delta?: number;
+  regression: boolean;
+  regressions: string[];
+}
+
+export interface HistoryEntry {
+  id: string;
+  status: VerificationRecord['status'];
+  level?: string;
+  score: number;
+  tier?: string;
+  checks: Record<string, boolean>;
+  passed: number;
+  total: number;
+  createdAt: string;
+  completedAt?: string;
+  expiresAt?: string;
+  reverifiedFrom?: string;
+  regression?: boolean;
+}
+
+export const REGRESSION_THRESHOLDS = {
+  scoreDrop: 5, // points
+  latencyIncreasePct: 50, // per check, relative
+  latencyIncreaseMs: 100 // per check, absolute floor so fast checks don't flap
+};
+
+// Only completed runs carry results worth comparing
+export function isComparable(record: VerificationRecord): boolean {
+  return (record.status === 'verified' || record.status === 'failed') && !!record.completedAt;
+}
+
+/**
+ * Compare two runs check-by-check
+ */
+export function diffRuns(from: VerificationRecord, to: VerificationRecord): RunDiff {
+  const fromChecks = from.checks || {};
+  const toChecks = to.checks || {};
+
+  const newlyFailing = Object.keys(toChecks).filter(c => fromChecks[c] === true && toChecks[c] === false);
+  const newlyPassing = Object.keys(toChecks).filter(c => fromChecks[c] === false && toChecks[c] === true);
+  const addedChecks = Object.keys(toChecks).filter(c => !(c in fromChecks));
+  const removedChecks = Object.keys(fromChecks).filter(c => !(c in toChecks));
+
+  const latency: Record<string, CheckLatencyChange> = {};
+  const slower: string[] = [];
+  for (const [check, toMs] of Object.entries(to.timings || {})) {
+    const fromMs = from.timings?.[check];
+    if (fromMs === undefined) continue;
+
+    latency[check] = { from: fromMs, to: toMs, delta: toMs - fromMs };
+
+    const increase = toMs - fromMs;
+    if (
+      increase >= REGRESSION_THRESHOLDS.latencyIncreaseMs &&
+      increase >= fromMs * (REGRESSION_THRESHOLDS.latencyIncreasePct / 100)
+    ) {
+      slower.push(check);
+    }
+  }
+
+  const scoreDelta = to.score - from.score;
+  const p95Delta = from.profile && to.profile
+    ? to.profile.overall.p95 - from.profile.overall.p95
+    : undefined;
+
+  const regressions: string[] = [];
+  if (newlyFailing.length > 0) {
+    regressions.push(`Newly failing: ${newlyFailing.join(', ')}`);
+  }
+  if (scoreDelta <= -REGRESSION_THRESHOLDS.scoreDrop) {
+    regressions.push(`Score dropped ${-scoreDelta} points`);
+  }
+  if (from.tier && to.tier && TIER_RANK[to.tier] < TIER_RANK[from.tier]) {
+    regressions.push(`Tier dropped from ${from.tier} to ${to.tier}`);
+  }
+  if (slower.length > 0) {
+    regressions.push(`Slower: ${slower.join(', ')}`);
+  }
+
+  return {
+    from: from.id,
+    to: to.id,
+    scoreDelta,
+    tierChanged: from.tier !== to.tier,
+    newlyFailing,
+    newlyPassing,
+    addedChecks,
+    removedChecks,
+    latency,
+    p95Delta,
+    regression: regressions.length > 0,
+    regressions
+  };
+}
+
+/**
+ * Chronological history, each completed run flagged against the one before it
+ */
+export function buildHistory(runs: VerificationRecord[]): HistoryEntry[] {
+  let previous: VerificationRecord | undefined;
+
+  return runs.map(run => {
+    const checks = run.checks || {};
+    const entry: HistoryEntry = {
+      id: run.id,
+      status: run.status,
+      level: run.level,
+      score: run.score,
+      tier: run.tier,
+      checks,
+      passed: Object.values(checks).filter(Boolean).length,
+      total: Object.keys(checks).length,
+      createdAt: run.createdAt,
+      completedAt: run.completedAt,
+      expiresAt: run.expiresAt,
+      reverifiedFrom: run.reverifiedFrom
+    };
+
+    if (isComparable(run)) {
+      if (previous) {
+        entry.regression = diffRuns(previous, run).regression;
+      }
+      previous = run;
+    }
+
+    return entry;
+  });
+}
@@ -1,17 +1,113 @@
 import express from 'express';
 import cors from 'cors';
+import path from 'path';
+import { timingSafeEqual } from 'crypto';
 import { Connection, Keypair, PublicKey } from '@solana/web3.js';
-import { verifyAgent } from './verifier';
-import { createAttestation } from './attestation';
+import { registerCheck, verifyAgent } from './verifier';
+import { loadChallengeSuites } from './challenges';
+import {
+  createAttestation,
+  buildAttestationInfo,
+  verifyAttestation,
+  getAgentAttestations,
+  createRevocation,
+  BatchAttestationResult,
+  RevocationReason,
+  REVOCATION_REASONS
+} from './attestation';
+import { AttestationBatcher, DEFAULT_BATCHER_OPTIONS } from './batcher';
+import { buildDidDocument, didWebUrl, issueCredential, loadIssuerKey, signJws } from './credentials';
+import { AgentSignals, applySignals, validateSignals } from './scoring';
+import { StoredTrace, validateTrace, calculateBehavioralScore, findOverlap, traceSigningMessage } from './traces';
+import { verifyWalletSignature } from './signer';
+import { VerificationRecord, VerificationJob, StoredRevocation, createStorage } from './storage';
+import { VerificationQueue, TransientError } from './queue';
+import { LatencyProfile } from './profiler';
+import { deliverWebhook, isValidCallbackUrl } from './webhooks';
+import { ProgressHub, ProgressEvent } from './progress';
+import { buildHistory, diffRuns, isComparable } from './history';
+import { DEFAULT_VALIDITY_DAYS, agentIdToFieldElement, verifyStarkProof } from './stark';
+import { ProofError, ProofWorkers, ProverBusyError, ProvedStatement } from './prover';
+import { RateLimiter } from './ratelimit';
+import { Predicate, parsePredicate } from './predicates';
+import {
+  ReverificationScheduler,
+  decayedScore,
+  expiresAtFor,
+  isExpired,
+  validityDaysFor
+} from './expiry';
+import {
+  AttestationInfo,
+  BehavioralScore,
+  ExecutionTrace,
+  VerificationTier,
+  calculateTier
+} from './types';
+import {
+  QuickVerifyRequest,
+  DeepVerifyRequest,
+  VerificationResult as ClientVerificationResult
+} from './client';
 
 const app = express();
 const PORT = process.env.PORT || 3001;
 
+// Validity of STARK proofs when the request doesn't ask for one
+const PROOF_VALIDITY_DAYS = parseFloat(process.env.PROOF_VALIDITY_DAYS || '') || DEFAULT_VALIDITY_DAYS;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Custom checks: modules export register(registerCheck), so they use this server's registry
+// rather than one from a second copy of the verifier module
+for (const modulePath of (process.env.POA_CHECK_MODULES || '').split(',').filter(Boolean)) {
+  const checkModule = require(path.resolve(modulePath.trim()));
+  const register = checkModule.register ?? checkModule.default?.register;
+  if (typeof register !== 'function') {
+    throw new Error(`${modulePath.trim()} does not export register(registerCheck)`);
+  }
+  register(registerCheck);
+}
+
+// Capability challenge suites (fail fast on invalid files)
+const challengeSuites = loadChallengeSuites();
+console.log(`Loaded ${challengeSuites.length} capability challenge suite(s)`);
+
 app.use(cors());
 app.use(express.json());
 
-// In-memory store (replace with DB in production)
-const verifications = new Map<string, VerificationResult>();
+const storage = createStorage();
+const issuerKey = loadIssuerKey();
+const progress = new ProgressHub();
+const scheduler = new ReverificationScheduler(storage, reverify);
+const queue = new VerificationQueue(storage, {
+  run: runVerification,
+  onFailure: (job, error) => {
+    const result = storage.getVerification(job.id);
+    if (result) {
+      failVerification(result);
+      publishResult(result);
+      notifyCallback(result);
+    }
+    console.error(`Verification ${job.id} failed:`, error.message);
+  }
+});
+
+// ATTESTATION_BATCH_SIZE > 1 attests agents together under one Merkle root memo
+const batcher = DEFAULT_BATCHER_OPTIONS.maxBatchSize > 1
+  ? new AttestationBatcher(storage, {
+      onPublished: recordBatch,
+      onFailure: (error, entries) => {
+        console.error(`Batch attestation of ${entries.length} agent(s) failed, will retry:`, error.message);
+      }
+    })
+  : null;
+
+const prover = new ProofWorkers();
+// PROOF_RATE_LIMIT proofs per API key per hour
+const proofLimiter = new RateLimiter({
+  limit: parseInt(process.env.PROOF_RATE_LIMIT || '') || 20,
+  windowMs: 60 * 60 * 1000
+});
 
 interface VerificationRequest {
   agentName: string;
@@ -19,18 +115,9 @@ interface VerificationRequest {
   capabilities: string[];
   testLevel: 'basic' | 'standard' | 'comprehensive';
   walletAddress?: string;
+  callbackUrl?: string;
 }
 
-interface VerificationResult {
-  id: string;
-  agentName: string;
-  status: 'pending' | 'testing' | 'verified' | 'failed';
-  score: number;
-  checks: Record<string, boolean>;
-  attestationTx?: string;
-  createdAt: string;
-  completedAt?: string;
-}
 
 // Landing page
 app.get('/', (req, res) => {
@@ -95,7 +182,7 @@ app.get('/', (req, res) => {
     
     <div class="stats">
       <div class="stat">
-        <div class="stat-value">${verifications.size}</div>
+        <div class="stat-value">${storage.countVerifications()}</div>
         <div class="stat-label">Verifications</div>
       </div>
       <div class="stat">
@@ -124,12 +211,16 @@ app.get('/', (req, res) => {
       <h3>Core Endpoints</h3>
       <ul class="endpoints">
         <li><span class="method post">POST</span> <code>/api/verify</code> — Verify agent (PoA score 0-100)</li>
+        <li><span class="method post">POST</span> <code>/api/verify/quick</code> — Quick verification (~10s)</li>
+        <li><span class="method post">POST</span> <code>/api/verify/deep</code> — Deep verification with code signals</li>
         <li><span class="method post">POST</span> <code>/api/validate</code> — Unified SAP validation</li>
         <li><span class="method post">POST</span> <code>/api/identity/register</code> — Register hardware identity</li>
         <li><span class="method post">POST</span> <code>/api/identity/tpm/challenge</code> — TPM attestation</li>
         <li><span class="method post">POST</span> <code>/api/identity/depin</code> — DePIN device binding</li>
         <li><span class="method post">POST</span> <code>/api/identity/table-check</code> — Sybil detection</li>
-        <li><span class="method post">POST</span> <code>/api/stark/generate/:id</code> — STARK threshold proof</li>
+        <li><span class="method post">POST</span> <code>/api/traces</code> — Submit execution trace (+25 bonus)</li>
+        <li><span class="method post">POST</span> <code>/api/stark/generate/:id</code> — STARK threshold or predicate proof</li>
+        <li><span class="method post">POST</span> <code>/api/stark/verify</code> — Check a STARK proof by hash</li>
         <li><span class="method get">GET</span> <code>/api/identity/:id/report</code> — Trust ladder report</li>
         <li><span class="method get">GET</span> <code>/api/health</code> — Health check</li>
       </ul>
@@ -188,46 +279,136 @@ app.get('/api/health', (req, res) => {
     service: 'Proof-of-Agent Verification',
     version: '1.0.0',
     status: 'operational',
-    verificationsProcessed: verifications.size
+    verificationsProcessed: storage.countVerifications(),
+    queue: queue.stats(),
+    prover: prover.stats()
   });
 });
 
+// did:web document with the key that signs verification credentials
+app.get('/.well-known/did.json', (req, res) => {
+  res.json(buildDidDocument(issuerKey));
+});
+
 // Submit verification request
 app.post('/api/verify', async (req, res) => {
-  const { agentName, apiEndpoint, capabilities, testLevel, walletAddress }: VerificationRequest = req.body;
+  const {
+    agentName,
+    apiEndpoint,
+    capabilities,
+    testLevel,
+    walletAddress,
+    callbackUrl
+  }: VerificationRequest = req.body;
 
   // Validation
   if (!agentName || !apiEndpoint) {
     return res.status(400).json({ error: 'agentName and apiEndpoint required' });
   }
 
-  const id = `poa-${Date.now().toString(36)}-${Math.random().toString(36).substr(2, 6)}`;
-  
-  const result: VerificationResult = {
-    id,
-    agentName,
-    status: 'pending',
-    score: 0,
-    checks: {},
-    createdAt: new Date().toISOString()
-  };
+  if (callbackUrl) {
+    if (!isValidCallbackUrl(callbackUrl)) {
+      return res.status(400).json({ error: 'callbackUrl must be an http(s) URL' });
+    }
+    if (!process.env.WEBHOOK_SECRET) {
+      return res.status(400).json({ error: 'Callbacks are not enabled on this server' });
+    }
+  }
 
-  verifications.set(id, result);
+  const result = createVerification(agentName, {
+    apiEndpoint,
+    capabilities: capabilities || [],
+    level: testLevel || 'basic',
+    walletAddress,
+    callbackUrl
+  });
+  const id = result.id;
 
-  // Start async verification
-  runVerification(id, apiEndpoint, capabilities || [], testLevel || 'basic', walletAddress);
+  // Queue async verification
+  enqueueVerification(result);
 
   res.json({
     verificationId: id,
     status: 'pending',
-    message: 'Verification started. Poll /api/status/:id for results.',
+    message: callbackUrl
+      ? 'Verification started. Result will be POSTed to callbackUrl.'
+      : 'Verification started. Poll /api/status/:id for results.',
     estimatedTime: testLevel === 'comprehensive' ? '5 minutes' : testLevel === 'standard' ? '1 minute' : '10 seconds'
   });
 });
 
+// Quick verification - basic checks through the queue, result returned once finished
+app.post('/api/verify/quick', async (req, res) => {
+  const { agentId, apiEndpoint, walletAddress }: QuickVerifyRequest = req.body;
+
+  if (!agentId || !apiEndpoint) {
+    return res.status(400).json({ error: 'agentId and apiEndpoint required' });
+  }
+
+  const result = createVerification(agentId, { apiEndpoint, capabilities: [], level: 'basic', walletAddress });
+  enqueueVerification(result);
+
+  respondWhenFinished(req, res, result.id);
+});
+
+// Deep verification - live checks plus self-reported signals, result returned once finished
+app.post('/api/verify/deep', async (req, res) => {
+  const {
+    agentId,
+    apiEndpoint,
+    capabilities,
+    walletAddress,
+    codeUrl,
+    documentation,
+    testCoverage,
+    codeLines
+  }: DeepVerifyRequest = req.body;
+
+  if (!agentId || !apiEndpoint) {
+    return res.status(400).json({ error: 'agentId and apiEndpoint required' });
+  }
+
+  const signals: AgentSignals = { codeUrl, documentation, testCoverage, codeLines };
+  const invalid = validateSignals(signals);
+  if (invalid) {
+    return res.status(400).json({ error: invalid });
+  }
+  const result = createVerification(agentId, {
+    apiEndpoint,
+    capabilities: capabilities || [],
+    level: 'standard',
+    walletAddress,
+    signals
+  });
+  enqueueVerification(result);
+
+  respondWhenFinished(req, res, result.id);
+});
+
+// Cancel a queued or running verification
+app.post('/api/verify/:id/cancel', (req, res) => {
+  const result = storage.getVerification(req.params.id);
+
+  if (!result) {
+    return res.status(404).json({ error: 'Verification not found' });
+  }
+
+  // A finished result may already be publishing its attestation, so it can no longer be cancelled
+  if (isFinished(result) || !queue.cancel(result.id)) {
+    return res.status(409).json({ error: `Verification already ${result.status}` });
+  }
+
+  result.status = 'cancelled';
+  result.completedAt = new Date().toISOString();
+  storage.saveVerification(result);
+  publishResult(result);
+
+  res.json({ verificationId: result.id, status: result.status });
+});
+
 // Check verification status
 app.get('/api/status/:id', (req, res) => {
-  const result = verifications.get(req.params.id);
+  const result = storage.getVerification(req.params.id);
   
   if (!result) {
     return res.status(404).json({ error: 'Verification not found' });
@@ -236,30 +417,478 @@ app.get('/api/status/:id', (req, res) => {
   res.json(result);
 });
 
+// Signed Verifiable Credential (VC-JWT) for a completed verification
+app.get('/api/credentials/:id', (req, res) => {
+  const result = storage.getVerification(req.params.id);
+
+  if (!result?.credential) {
+    return res.status(404).json({ error: 'No credential for this verification' });
+  }
+
+  res.json({
+    verificationId: result.id,
+    issuer: issuerKey.did,
+    credential: result.credential
+  });
+});
+
+// Whether a credential's verification still stands: its signature can't say it was revoked
+app.get('/api/credentials/:id/status', (req, res) => {
+  const result = storage.getVerification(req.params.id);
+
+  if (!result?.credential) {
+    return res.status(404).json({ error: 'No credential for this verification' });
+  }
+
+  const revocation = findRevocation(result);
+  res.json({
+    verificationId: result.id,
+    status: revocation ? 'revoked' : isExpired(result) ? 'expired' : 'active',
+    expiresAt: result.expiresAt,
+    ...(revocation && {
+      revocation: {
+        signature: revocation.signature,
+        reason: revocation.reason,
+        revokedAt: revocation.createdAt
+      }
+    })
+  });
+});
+
+// Live progress for a verification over Server-Sent Events
+app.get('/api/status/:id/stream', (req, res) => {
+  const result = storage.getVerification(req.params.id);
+
+  if (!result) {
+    return res.status(404).json({ error: 'Verification not found' });
+  }
+
+  res.set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive'
+  });
+  res.flushHeaders();
+
+  let closed = false;
+  let unsubscribe: (() => void) | undefined;
+  const keepAlive = setInterval(() => res.write(': keepalive\n\n'), 15000);
+
+  const close = () => {
+    if (closed) return;
+    closed = true;
+    clearInterval(keepAlive);
+    unsubscribe?.();
+    res.end();
+  };
+
+  const send = (event: ProgressEvent) => {
+    if (closed) return;
+    res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+    if (event.type === 'result') {
+      close();
+    }
+  };
+
+  req.on('close', close);
+
+  if (isFinished(result)) {
+    send({ type: 'result', verificationId: result.id, at: new Date().toISOString(), status: result.status, result });
+    return;
+  }
+
+  // A running verification's status event is replayed from its history
+  if (result.status === 'pending') {
+    send({ type: 'status', verificationId: result.id, at: new Date().toISOString(), status: result.status });
+  }
+  unsubscribe = progress.subscribe(result.id, send);
+  if (closed) {
+    unsubscribe();
+  }
+});
+
+// Webhook delivery log for a verification
+app.get('/api/status/:id/deliveries', (req, res) => {
+  const result = storage.getVerification(req.params.id);
+
+  if (!result) {
+    return res.status(404).json({ error: 'Verification not found' });
+  }
+
+  res.json({
+    verificationId: result.id,
+    callbackUrl: result.callbackUrl,
+    deliveries: result.webhookDeliveries || []
+  });
+});
+
 // Get score by agent name/address
 app.get('/api/score/:agent', (req, res) => {
   const agent = req.params.agent.toLowerCase();
   
   // Find most recent verification for this agent
-  let latest: VerificationResult | null = null;
-  
-  for (const v of verifications.values()) {
-    if (v.agentName.toLowerCase() === agent && v.status === 'verified') {
-      if (!latest || new Date(v.completedAt!) > new Date(latest.completedAt!)) {
-        latest = v;
-      }
-    }
-  }
+  const latest = findLatestVerified(agent);
 
   if (!latest) {
     return res.status(404).json({ error: 'No verified score found for agent' });
   }
 
+  const expired = isExpired(latest);
+  const score = decayedScore(latest);
+  const revocation = findRevocation(latest);
+
   res.json({
     agent: latest.agentName,
-    score: latest.score,
+    status: revocation ? 'revoked' : expired ? 'expired' : 'verified',
+    score,
+    verifiedScore: latest.score,
+    tier: calculateTier(score),
+    behavioral: latest.behavioral,
     verifiedAt: latest.completedAt,
-    attestationTx: latest.attestationTx
+    expiresAt: latest.expiresAt,
+    attestationTx: latest.attestationTx,
+    ...(revocation && {
+      revocation: {
+        signature: revocation.signature,
+        reason: revocation.reason,
+        revokedAt: revocation.createdAt
+      }
+    })
+  });
+});
+
+// Full verification history for an agent (oldest first)
+app.get('/api/agents/:agent/history', (req, res) => {
+  const runs = storage.getVerificationsByAgent(req.params.agent);
+
+  if (runs.length === 0) {
+    return res.status(404).json({ error: 'No verifications found for agent' });
+  }
+
+  const history = buildHistory(runs);
+
+  res.json({
+    agent: runs[runs.length - 1].agentName,
+    count: history.length,
+    regressions: history.filter(entry => entry.regression).length,
+    history
+  });
+});
+
+// Compare two runs for an agent; defaults to the latest completed run vs the one before it
+app.get('/api/agents/:agent/diff', (req, res) => {
+  const runs = storage.getVerificationsByAgent(req.params.agent).filter(isComparable);
+  const { from, to } = req.query as { from?: string; to?: string };
+
+  const toRun = to ? runs.find(run => run.id === to) : runs[runs.length - 1];
+  if (!toRun) {
+    return res.status(404).json({ error: to ? 'Run not found for agent' : 'No completed verifications for agent' });
+  }
+
+  const fromRun = from
+    ? runs.find(run => run.id === from)
+    : runs.filter(run => run.createdAt < toRun.createdAt).pop();
+  if (!fromRun) {
+    return res.status(404).json({ error: from ? 'Run not found for agent' : 'No earlier completed run to compare against' });
+  }
+
+  res.json({
+    agent: toRun.agentName,
+    ...diffRuns(fromRun, toRun)
+  });
+});
+
+// On-chain attestations for an agent wallet, synced incrementally into storage
+app.get('/api/agents/:address/attestations', async (req, res) => {
+  try {
+    const attestations = await getAgentAttestations(req.params.address, { storage });
+    res.json({ agentAddress: req.params.address, count: attestations.length, attestations });
+  } catch (error: any) {
+    // Serve what is already indexed if the chain can't be reached
+    const attestations = storage.getAttestationsByAgent(req.params.address)
+      .filter(attestation => attestation.agentAddress === req.params.address);
+    res.json({ agentAddress: req.params.address, count: attestations.length, attestations, syncError: error.message });
+  }
+});
+
+// Verify an on-chain attestation, checking it against the stored result.
+// Batch memos need ?verificationId= to pick the agent's inclusion proof.
+app.get('/api/attestations/:signature', async (req, res) => {
+  const stored = storage.getAttestation(req.params.signature);
+  const verificationId = stored?.verificationId || req.query.verificationId as string | undefined;
+  const result = verificationId ? storage.getVerification(verificationId) : undefined;
+
+  const verification = await verifyAttestation(req.params.signature, {
+    result,
+    inclusion: result?.attestation?.inclusion,
+    storage
+  });
+
+  res.json({
+    signature: req.params.signature,
+    verificationId: result?.id,
+    ...verification
+  });
+});
+
+// Revoke a published attestation (whole memo, or one agent's leaf in a batch)
+app.post('/api/admin/revocations', requireAdmin, async (req, res) => {
+  const { signature, verificationId, reason }: {
+    signature?: string;
+    verificationId?: string;
+    reason: RevocationReason;
+  } = req.body;
+
+  if (!REVOCATION_REASONS.includes(reason)) {
+    return res.status(400).json({ error: `reason must be one of: ${REVOCATION_REASONS.join(', ')}` });
+  }
+
+  const result = verificationId ? storage.getVerification(verificationId) : undefined;
+  if (verificationId && !result) {
+    return res.status(404).json({ error: 'Verification not found' });
+  }
+
+  const target = signature || result?.attestationTx;
+  if (!target) {
+    return res.status(400).json({ error: 'signature or the id of an attested verification required' });
+  }
+
+  // Batches are revoked per agent; a lone memo is revoked as a whole
+  const leafId = result?.attestation?.inclusion ? result.id : undefined;
+
+  try {
+    const published = await createRevocation(target, reason, { verificationId: leafId });
+    const revocation: StoredRevocation = {
+      signature: published.signature,
+      target,
+      verificationId: leafId,
+      reason,
+      verifier: published.memo.verifier,
+      createdAt: new Date(published.timestamp * 1000).toISOString()
+    };
+    storage.saveRevocation(revocation);
+
+    res.status(201).json(revocation);
+  } catch (error: any) {
+    console.error('Revocation failed:', error.message);
+    res.status(500).json({ error: 'Revocation failed', details: { message: error.message } });
+  }
+});
+
+// Submit execution trace for behavioral scoring
+// Traces are signed with the wallet of the agent's latest verified result
+app.post('/api/traces', (req, res) => {
+  const { agentId, trace, signature }: { agentId: string; trace: ExecutionTrace; signature: string } = req.body;
+
+  if (!agentId || typeof signature !== 'string') {
+    return res.status(400).json({ error: 'agentId and signature required' });
+  }
+
+  const invalid = validateTrace(trace);
+  if (invalid) {
+    return res.status(400).json({ error: invalid, code: 'INVALID_TRACE' });
+  }
+
+  const latest = findLatestVerified(agentId);
+  if (!latest?.walletAddress) {
+    return res.status(403).json({ error: 'Agent has no verified wallet to sign traces with' });
+  }
+  if (!verifyWalletSignature(traceSigningMessage(agentId, trace), signature, latest.walletAddress)) {
+    return res.status(401).json({ error: 'Invalid trace signature' });
+  }
+
+  const overlap = findOverlap(trace, storage.getTraces(agentId));
+  if (overlap) {
+    return res.status(409).json({ error: `trace.period overlaps trace ${overlap.id}`, code: 'OVERLAPPING_TRACE' });
+  }
+
+  const stored: StoredTrace = {
+    id: `trace-${Date.now().toString(36)}-${Math.random().toString(36).substr(2, 6)}`,
+    agentId,
+    trace,
+    submittedAt: new Date().toISOString()
+  };
+
+  storage.saveTrace(stored);
+
+  const behavioral = calculateBehavioralScore(storage.getTraces(agentId));
+
+  // Refresh the latest completed verification with the new bonus
+  const previousScore = latest.score;
+  applyBehavioral(latest);
+  if (latest.score !== previousScore) {
+    reissueResult(latest);
+  }
+  storage.saveVerification(latest);
+
+  res.json({
+    traceId: stored.id,
+    behavioralScore: behavioral.bonus,
+    totalBonus: latest.behavioral?.bonus || 0
+  });
+});
+
+// Get traces for an agent
+app.get('/api/traces/:agentId', (req, res) => {
+  const agentTraces = storage.getTraces(req.params.agentId);
+  const behavioral = calculateBehavioralScore(agentTraces);
+
+  res.json({
+    agentId: req.params.agentId,
+    traces: agentTraces,
+    behavioralScore: behavioral.bonus,
+    behavioral
+  });
+});
+
+// Prove a score threshold or a predicate over an agent's latest verified result.
+// Proving takes seconds of CPU, so it runs on a worker and needs an API key.
+app.post('/api/stark/generate/:agentId', requireApiKey, limitProofs, async (req, res) => {
+  const { threshold = 60, predicate, validityDays = PROOF_VALIDITY_DAYS }: {
+    threshold?: number;
+    predicate?: Predicate | string;
+    validityDays?: number;
+  } = req.body;
+
+  if (typeof validityDays !== 'number' || !(validityDays > 0) || !isFinite(validityDays)) {
+    return res.status(400).json({ error: 'validityDays must be a positive number' });
+  }
+  if (!predicate && (!Number.isInteger(threshold) || threshold < 0 || threshold > 125)) {
+    return res.status(400).json({ error: 'threshold must be an integer from 0 to 125' });
+  }
+
+  let parsed: Predicate | undefined;
+  try {
+    parsed = predicate ? parsePredicate(predicate) : undefined;
+  } catch (error: any) {
+    return res.status(400).json({ error: error.message });
+  }
+
+  const latest = findLatestVerified(req.params.agentId);
+  if (!latest) {
+    return res.status(404).json({ error: 'No verified score found for agent' });
+  }
+  if (findRevocation(latest)) {
+    return res.status(409).json({ error: 'Verification has been revoked' });
+  }
+  if (isExpired(latest)) {
+    return res.status(409).json({ error: 'Verification has expired' });
+  }
+
+  // A proof never outlives the result it is about
+  const verifiedAt = Date.parse(latest.completedAt!);
+  const days = latest.expiresAt
+    ? Math.min(validityDays, (Date.parse(latest.expiresAt) - verifiedAt) / DAY_MS)
+    : validityDays;
+  // Both kinds of proof commit to the whole result, not just what they reveal
+  const score = decayedScore(latest);
+  const subject = { score, tier: calculateTier(score), checks: latest.checks, behavioral: latest.behavioral };
+  const common = {
+    timestamp: Math.floor(verifiedAt / 1000),
+    now: Math.floor(Date.now() / 1000),
+    agentIdHash: agentIdToFieldElement(latest.agentName),
+    validityDays: days,
+    verificationId: latest.id
+  };
+
+  let proved: ProvedStatement;
+  try {
+    proved = await prover.prove(parsed
+      ? {
+          kind: 'predicate',
+          inputs: { ...common, predicate: parsed, subject }
+        }
+      : { kind: 'threshold', inputs: { ...common, score: Math.round(score), subject, threshold } });
+  } catch (error: any) {
+    if (error instanceof ProofError) {
+      return res.status(422).json({ error: error.message });
+    }
+    if (error instanceof ProverBusyError) {
+      res.setHeader('Retry-After', '10');
+      return res.status(503).json({ error: error.message });
+    }
+    console.error('Proving failed:', error);
+    return res.status(500).json({ error: 'Proving failed' });
+  }
+
+  const { proof, valid } = proved;
+  if (!valid) {
+    console.error(`Generated proof ${proof.proofHash} failed verification`);
+    return res.status(500).json({ error: 'Generated proof failed verification' });
+  }
+
+  const expiresAt = new Date(proof.publicInputs.validUntil * 1000).toISOString();
+  const registration = signJws(issuerKey, {
+    iss: issuerKey.did,
+    sub: latest.agentName,
+    jti: proof.proofHash,
+    iat: common.now,
+    exp: proof.publicInputs.validUntil,
+    commitment: proof.publicInputs.commitment,
+    verificationId: latest.id
+  });
+  storage.saveProof({
+    proofHash: proof.proofHash,
+    agentId: latest.agentName,
+    verificationId: latest.id,
+    proof,
+    registration,
+    createdAt: new Date().toISOString(),
+    expiresAt
+  });
+
+  res.json({
+    valid,
+    meetsThreshold: proof.publicInputs.threshold !== undefined ? valid : undefined,
+    predicate: proof.publicInputs.predicate,
+    proof: {
+      commitment: proof.commitment,
+      proofHash: proof.proofHash
+    },
+    publicInputs: proof.publicInputs,
+    registration,
+    verificationId: latest.id,
+    expiresAt
+  });
+});
+
+// Check a registered proof: the STARK itself, its expiry and the source result's revocation
+app.post('/api/stark/verify', (req, res) => {
+  const { proofHash }: { proofHash: string } = req.body;
+
+  if (typeof proofHash !== 'string' || !proofHash) {
+    return res.status(400).json({ error: 'proofHash required' });
+  }
+
+  const stored = storage.getProof(proofHash);
+  if (!stored) {
+    return res.status(404).json({ error: 'Proof not found' });
+  }
+
+  const result = stored.verificationId ? storage.getVerification(stored.verificationId) : undefined;
+  const revocation = result ? findRevocation(result) : undefined;
+  const expired = !!stored.expiresAt && Date.parse(stored.expiresAt) <= Date.now();
+  const proofValid = verifyStarkProof(stored.proof);
+
+  res.json({
+    valid: proofValid && !expired && !revocation,
+    proofValid,
+    expired,
+    revoked: !!revocation,
+    proofHash,
+    agentId: stored.agentId,
+    verificationId: stored.verificationId,
+    publicInputs: stored.proof.publicInputs,
+    registration: stored.registration,
+    createdAt: stored.createdAt,
+    expiresAt: stored.expiresAt,
+    ...(revocation && {
+      revocation: {
+        signature: revocation.signature,
+        reason: revocation.reason,
+        revokedAt: revocation.createdAt
+      }
+    })
   });
 });
 
@@ -267,63 +896,420 @@ app.get('/api/score/:agent', (req, res) => {
 app.get('/api/verifications', (req, res) => {
   const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
   
-  const results = Array.from(verifications.values())
-    .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
-    .slice(0, limit);
+  const results = storage.listVerifications(limit);
 
   res.json({
     count: results.length,
-    total: verifications.size,
+    total: storage.countVerifications(),
     verifications: results
   });
 });
 
-// Async verification runner
-async function runVerification(
-  id: string,
-  endpoint: string,
-  capabilities: string[],
-  level: string,
-  walletAddress?: string
-) {
-  const result = verifications.get(id)!;
+// Async verification runner (queue job handler)
+async function runVerification(job: VerificationJob, isCancelled: () => boolean) {
+  const result = storage.getVerification(job.id);
+  if (!result) {
+    return;
+  }
+
   result.status = 'testing';
-  verifications.set(id, result);
+  storage.saveVerification(result);
+  progress.publish({ type: 'status', verificationId: result.id, status: result.status });
 
-  try {
-    const verification = await verifyAgent(endpoint, capabilities, level);
-    
-    result.score = verification.score;
-    result.checks = verification.checks;
-    result.status = verification.score >= 60 ? 'verified' : 'failed';
-    result.completedAt = new Date().toISOString();
-
-    // Create on-chain attestation for verified agents
-    if (result.status === 'verified' && walletAddress) {
-      try {
-        const attestation = await createAttestation(
-          result.agentName,
-          walletAddress,
-          result.score
-        );
-        result.attestationTx = attestation.signature;
-      } catch (e) {
-        console.error('Attestation failed:', e);
-      }
+  const verification = await verifyAgent(
+    job.endpoint,
+    job.capabilities,
+    job.level,
+    check => progress.publish({ ...check, verificationId: result.id })
+  );
+
+  // Cancelled while checks were running - discard the result
+  if (isCancelled()) {
+    return;
+  }
+
+  if (verification.retryable) {
+    const reason = verification.details.liveness || 'Agent temporarily unreachable';
+    progress.publish({
+      type: 'status',
+      verificationId: result.id,
+      status: result.status,
+      detail: `Transient failure, will retry: ${reason}`
+    });
+    throw new TransientError(reason);
+  }
+
+  const score = job.signals
+    ? applySignals(verification.checks, verification.details, verification.score, job.signals)
+    : verification.score;
+
+  // Last point a cancellation is honoured: once the result is final the cancel route refuses it
+  if (isCancelled()) {
+    return;
+  }
+  completeVerification(result, score, verification);
+
+  // Create on-chain attestation for verified agents
+  if (result.attestation && job.walletAddress && batcher) {
+    batcher.add(result, job.walletAddress);
+  } else if (result.attestation && job.walletAddress) {
+    try {
+      const attestation = await createAttestation(result, job.walletAddress);
+      result.attestationTx = attestation.signature;
+      result.attestation.signature = attestation.signature;
+      result.attestation.slot = attestation.slot;
+      result.attestation.onChain = true;
+
+      storage.saveAttestation({
+        signature: attestation.signature,
+        agentId: result.agentName,
+        agentAddress: job.walletAddress,
+        verificationId: result.id,
+        verifier: attestation.memo.verifier,
+        slot: attestation.slot,
+        memo: attestation.memo,
+        createdAt: new Date(attestation.timestamp * 1000).toISOString()
+      });
+    } catch (e) {
+      console.error('Attestation failed:', e);
     }
+  }
 
-    verifications.set(id, result);
-  } catch (error: any) {
-    result.status = 'failed';
-    result.checks = { error: false };
-    result.completedAt = new Date().toISOString();
-    verifications.set(id, result);
-    console.error(`Verification ${id} failed:`, error.message);
+  storage.saveVerification(result);
+  publishResult(result);
+  notifyCallback(result);
+}
+
+// Attach each agent's inclusion proof once its batch root is on chain
+function recordBatch(batch: BatchAttestationResult) {
+  for (const inclusion of batch.inclusions) {
+    const result = storage.getVerification(inclusion.leaf.vid);
+    if (!result?.attestation) continue;
+
+    result.attestationTx = batch.signature;
+    result.attestation.signature = batch.signature;
+    result.attestation.slot = batch.slot;
+    result.attestation.onChain = true;
+    result.attestation.inclusion = inclusion;
+    storage.saveVerification(result);
+
+    // Indexed per leaf so the agent's attestations include its batches
+    storage.saveAttestation({
+      signature: batch.signature,
+      agentId: result.agentName,
+      agentAddress: inclusion.leaf.agent,
+      verificationId: result.id,
+      verifier: batch.memo.verifier,
+      slot: batch.slot,
+      memo: batch.memo,
+      inclusion,
+      createdAt: new Date(batch.timestamp * 1000).toISOString()
+    });
   }
 }
 
-app.listen(PORT, () => {
-  console.log(`Proof-of-Agent API running on port ${PORT}`);
-});
+// Hold an inline verification request open until its queued job publishes a result
+function respondWhenFinished(req: express.Request, res: express.Response, id: string) {
+  let responded = false;
+  const unsubscribe = progress.subscribe(id, event => {
+    if (event.type !== 'result' || responded) return;
+    responded = true;
+
+    const result = storage.getVerification(id)!;
+    if (result.status === 'cancelled') {
+      res.status(409).json({ error: 'Verification cancelled', verificationId: id });
+    } else {
+      res.json({ verificationId: id, ...toClientResult(result) });
+    }
+  });
+
+  // Also fires if the client goes away; the job keeps running and its result stays in /api/status/:id
+  res.on('close', unsubscribe);
+}
+
+function isFinished(result: VerificationRecord): boolean {
+  return result.status !== 'pending' && result.status !== 'testing';
+}
+
+function publishResult(result: VerificationRecord) {
+  progress.publish({ type: 'result', verificationId: result.id, status: result.status, result });
+}
+
+// POST the final result to the verification's callbackUrl, if any
+function notifyCallback(result: VerificationRecord) {
+  const secret = process.env.WEBHOOK_SECRET;
+  if (!result.callbackUrl || !secret) {
+    return;
+  }
+
+  const { webhookDeliveries, callbackUrl, ...payload } = result;
+  const event = result.status === 'verified' ? 'verification.completed' : 'verification.failed';
+
+  deliverWebhook(callbackUrl, event, { verificationId: result.id, result: payload }, secret, delivery => {
+    result.webhookDeliveries = [...(result.webhookDeliveries || []), delivery];
+    storage.saveVerification(result);
+  }).catch(error => {
+    console.error(`Webhook delivery for ${result.id} failed:`, error.message);
+  });
+}
+
+type VerificationParams = Pick<
+  VerificationRecord,
+  'apiEndpoint' | 'capabilities' | 'level' | 'walletAddress' | 'signals' | 'callbackUrl' | 'reverifiedFrom'
+>;
+
+function createVerification(agentName: string, params: VerificationParams): VerificationRecord {
+  const id = `poa-${Date.now().toString(36)}-${Math.random().toString(36).substr(2, 6)}`;
+
+  const result: VerificationRecord = {
+    id,
+    agentName,
+    ...params,
+    status: 'pending',
+    score: 0,
+    checks: {},
+    createdAt: new Date().toISOString()
+  };
+
+  storage.saveVerification(result);
+  return result;
+}
+
+function enqueueVerification(result: VerificationRecord) {
+  queue.enqueue({
+    id: result.id,
+    endpoint: result.apiEndpoint!,
+    capabilities: result.capabilities || [],
+    level: result.level || 'basic',
+    walletAddress: result.walletAddress,
+    signals: result.signals
+  });
+}
+
+// Re-run a verification close to expiry with the same parameters
+function reverify(previous: VerificationRecord): string | null {
+  if (!previous.apiEndpoint) {
+    return null;
+  }
+
+  const result = createVerification(previous.agentName, {
+    apiEndpoint: previous.apiEndpoint,
+    capabilities: previous.capabilities,
+    level: previous.level,
+    walletAddress: previous.walletAddress,
+    signals: previous.signals,
+    callbackUrl: previous.callbackUrl,
+    reverifiedFrom: previous.id
+  });
+
+  enqueueVerification(result);
+  return result.id;
+}
+
+interface CheckResults {
+  checks: Record<string, boolean>;
+  details: Record<string, string>;
+  timings?: Record<string, number>;
+  profile?: LatencyProfile;
+}
+
+function completeVerification(result: VerificationRecord, score: number, outcome: CheckResults) {
+  const { checks, details, timings, profile } = outcome;
+
+  result.baseScore = score;
+  result.checks = checks;
+  result.details = details;
+  result.timings = timings;
+  result.profile = profile;
+  // Behavioral bonus raises the score but cannot carry a failing agent
+  result.status = score >= 60 ? 'verified' : 'failed';
+  result.completedAt = new Date().toISOString();
+  applyBehavioral(result);
+
+  if (result.status === 'verified') {
+    result.expiresAt = expiresAtFor(result.level, result.completedAt);
+    result.attestation = buildAttestationInfo(
+      result.agentName,
+      result.score,
+      checks,
+      result.completedAt,
+      validityDaysFor(result.level)
+    );
+    result.credential = issueResultCredential(result);
+  }
+
+  storage.saveVerification(result);
+}
+
+// Passing results are also issued as a credential with the client-facing claims,
+// expiring with the result and pointing at /api/credentials/:id/status for revocation
+function issueResultCredential(result: VerificationRecord): string {
+  const origin = process.env.PUBLIC_URL?.replace(/\/+$/, '') || didWebUrl(issuerKey.did);
+  return issueCredential(
+    issuerKey,
+    `urn:poa:verification:${result.id}`,
+    {
+      id: `urn:poa:agent:${encodeURIComponent(result.agentName.toLowerCase())}`,
+      verificationId: result.id,
+      level: result.level,
+      status: result.status,
+      ...toClientResult(result)
+    },
+    result.completedAt!,
+    result.expiresAt!,
+    origin && `${origin}/api/credentials/${encodeURIComponent(result.id)}/status`
+  );
+}
+
+// Merge the agent's current behavioral bonus into a completed result
+function applyBehavioral(result: VerificationRecord) {
+  const behavioral = calculateBehavioralScore(storage.getTraces(result.agentName));
+  const baseScore = result.baseScore ?? result.score;
+
+  result.behavioral = behavioral.traceCount > 0 ? behavioral : undefined;
+  result.score = Math.min(100, baseScore + behavioral.bonus);
+  result.tier = calculateTier(result.score);
+}
+
+// Keep the credential in step with a changed score. Attestations stay as
+// published: they record the score at verification time.
+function reissueResult(result: VerificationRecord) {
+  if (result.credential) {
+    result.credential = issueResultCredential(result);
+  }
+}
+
+// Proof generation needs a key from PROOF_API_KEYS in X-API-Key; disabled when it's unset
+function requireApiKey(req: express.Request, res: express.Response, next: express.NextFunction) {
+  const keys = (process.env.PROOF_API_KEYS || '').split(',').map(key => key.trim()).filter(Boolean);
+  if (keys.length === 0) {
+    return res.status(503).json({ error: 'Proof generation is not enabled on this server' });
+  }
+
+  const given = Buffer.from(req.header('x-api-key') || '');
+  const known = keys.some(key => {
+    const expected = Buffer.from(key);
+    return given.length === expected.length && timingSafeEqual(given, expected);
+  });
+  if (!known) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  next();
+}
+
+// Per API key, after requireApiKey
+function limitProofs(req: express.Request, res: express.Response, next: express.NextFunction) {
+  const retryAfterMs = proofLimiter.take(req.header('x-api-key')!);
+  if (retryAfterMs > 0) {
+    res.setHeader('Retry-After', String(Math.ceil(retryAfterMs / 1000)));
+    return res.status(429).json({ error: 'Proof rate limit exceeded' });
+  }
+  next();
+}
+
+// Admin routes need ADMIN_TOKEN as a bearer token; disabled when it's unset
+function requireAdmin(req: express.Request, res: express.Response, next: express.NextFunction) {
+  const token = process.env.ADMIN_TOKEN;
+  if (!token) {
+    return res.status(503).json({ error: 'Admin routes are not enabled on this server' });
+  }
+
+  const expected = Buffer.from(`Bearer ${token}`);
+  const given = Buffer.from(req.headers.authorization || '');
+  if (given.length !== expected.length || !timingSafeEqual(given, expected)) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  next();
+}
+
+// Revocation covering a verification's attestation, if any
+function findRevocation(result: VerificationRecord): StoredRevocation | undefined {
+  if (!result.attestationTx) {
+    return undefined;
+  }
+  return storage.getRevocations(result.attestationTx).find(revocation =>
+    !revocation.verificationId || revocation.verificationId === result.id
+  );
+}
+
+function findLatestVerified(agent: string): VerificationRecord | null {
+  let latest: VerificationRecord | null = null;
+
+  for (const v of storage.getVerificationsByAgent(agent)) {
+    if (v.status === 'verified') {
+      if (!latest || new Date(v.completedAt!) > new Date(latest.completedAt!)) {
+        latest = v;
+      }
+    }
+  }
+
+  return latest;
+}
+
+function failVerification(result: VerificationRecord) {
+  result.status = 'failed';
+  result.checks = { error: false };
+  result.completedAt = new Date().toISOString();
+  storage.saveVerification(result);
+}
+
+// Shape returned to PoAClient by the inline verification routes
+function toClientResult(result: VerificationRecord): ClientVerificationResult {
+  return {
+    success: result.status === 'verified',
+    agentId: result.agentName,
+    score: result.score,
+    tier: result.tier || calculateTier(result.score),
+    checks: result.checks,
+    ...(result.behavioral && {
+      behavioral: {
+        bonus: result.behavioral.bonus,
+        traceCount: result.behavioral.traceCount
+      }
+    }),
+    ...(result.profile && {
+      profile: {
+        p50: result.profile.overall.p50,
+        p95: result.profile.overall.p95,
+        p99: result.profile.overall.p99,
+        errorRate: result.profile.concurrent.errorRate,
+        throughput: result.profile.concurrent.throughput
+      }
+    }),
+    ...(result.attestation && {
+      attestation: {
+        hash: result.attestation.hash,
+        validUntil: result.attestation.validUntil,
+        expiresAt: result.attestation.expiresAt,
+        signature: result.attestation.signature,
+        inclusion: result.attestation.inclusion
+      }
+    }),
+    ...(result.credential && { credential: result.credential })
+  };
+}
+
+// Only when run as the server; tests import the app and listen themselves
+if (require.main === module) {
+  app.listen(PORT, () => {
+    console.log(`Proof-of-Agent API running on port ${PORT}`);
+
+    const resumed = queue.resume();
+    if (resumed > 0) {
+      console.log(`Resumed ${resumed} interrupted verification job(s)`);
+    }
+
+    const unpublished = batcher?.resume() ?? 0;
+    if (unpublished > 0) {
+      console.log(`Resumed ${unpublished} agent(s) awaiting a batch attestation`);
+    }
+
+    if (process.env.REVERIFY_ENABLED !== 'false') {
+      scheduler.start();
+    }
+  });
+}
 
 export default app;
@@ -0,0 +1,80 @@
+/**
+ * Merkle trees for batched attestations
+ */
+
+import { sha256 } from '@noble/hashes/sha2';
+import { bytesToHex, concatBytes, hexToBytes, utf8ToBytes } from '@noble/hashes/utils';
+import { canonicalize } from './canonical';
+import { AttestationInclusion, MerkleStep } from './types';
+
+// Distinct prefixes so a leaf can never be passed off as an inner node
+const LEAF_PREFIX = new Uint8Array([0x00]);
+const NODE_PREFIX = new Uint8Array([0x01]);
+
+// Plain SHA-256 from @noble/hashes rather than Node's crypto, so the client can check proofs in a browser
+export function hashLeaf(data: any): string {
+  return bytesToHex(sha256(concatBytes(LEAF_PREFIX, utf8ToBytes(canonicalize(data)))));
+}
+
+function hashNode(left: string, right: string): string {
+  return bytesToHex(sha256(concatBytes(NODE_PREFIX, hexToBytes(left), hexToBytes(right))));
+}
+
+/**
+ * Root and per-leaf proofs. An odd node out is carried up a level unchanged
+ * rather than paired with itself.
+ */
+export function buildMerkleTree(leafHashes: string[]): { root: string; proofs: MerkleStep[][] } {
+  if (leafHashes.length === 0) {
+    throw new Error('Cannot build a Merkle tree with no leaves');
+  }
+
+  const proofs: MerkleStep[][] = leafHashes.map(() => []);
+  // Which original leaves sit under each node of the current level
+  let members = leafHashes.map((_, i) => [i]);
+  let level = leafHashes;
+
+  while (level.length > 1) {
+    const nextLevel: string[] = [];
+    const nextMembers: number[][] = [];
+
+    for (let i = 0; i < level.length; i += 2) {
+      if (i + 1 === level.length) {
+        nextLevel.push(level[i]);
+        nextMembers.push(members[i]);
+        continue;
+      }
+
+      for (const leaf of members[i]) proofs[leaf].push({ hash: level[i + 1], position: 'right' });
+      for (const leaf of members[i + 1]) proofs[leaf].push({ hash: level[i], position: 'left' });
+
+      nextLevel.push(hashNode(level[i], level[i + 1]));
+      nextMembers.push([...members[i], ...members[i + 1]]);
+    }
+
+    level = nextLevel;
+    members = nextMembers;
+  }
+
+  return { root: level[0], proofs };
+}
+
+export function computeMerkleRoot(leafHash: string, proof: MerkleStep[]): string {
+  return proof.reduce(
+    (hash, step) => step.position === 'left' ? hashNode(step.hash, hash) : hashNode(hash, step.hash),
+    leafHash
+  );
+}
+
+export function verifyMerkleProof(leafHash: string, proof: MerkleStep[], root: string): boolean {
+  try {
+    return computeMerkleRoot(leafHash, proof) === root;
+  } catch {
+    return false; // a step that isn't a hex hash
+  }
+}
+
+// Check an agent's leaf hashes up to the root it claims (not that the root is on chain)
+export function verifyInclusionProof(inclusion: AttestationInclusion): boolean {
+  return verifyMerkleProof(hashLeaf(inclusion.leaf), inclusion.proof, inclusion.root);
+}
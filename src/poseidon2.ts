@@ -0,0 +1,237 @@
+/**
+ * Poseidon2 permutation and sponge over M31
+ *
+ * Width 16, x^5 S-box, 8 full and 14 partial rounds (the 128-bit round
+ * numbers for a 31-bit field). The external layer is circ(2 M4, M4, M4, M4)
+ * with the Poseidon2 paper's M4; the internal layer is 1 * 1^T + diag(V) with
+ * the diagonal used for Mersenne31 in Plonky3. Round constants come from the
+ * Grain LFSR exactly as in the Poseidon reference scripts.
+ */
+
+import { P, Q, QM31, mAdd, mMul, mReduce } from './field';
+
+export const POSEIDON2_WIDTH = 16;
+export const POSEIDON2_RATE = 8;
+export const POSEIDON2_DIGEST = 8;
+const ROUNDS_FULL = 8;
+const ROUNDS_PARTIAL = 14;
+export const POSEIDON2_ROUNDS = ROUNDS_FULL + ROUNDS_PARTIAL;
+
+// Bump when anything that changes outputs changes
+export const POSEIDON2_ID = 'poseidon2-m31-w16-rf8-rp14-v1';
+
+// Internal diagonal: -2, then these powers of two
+const INTERNAL_SHIFTS = [0, 1, 2, 3, 4, 5, 6, 7, 8, 10, 12, 13, 14, 15, 16].map(shift => 2 ** shift);
+const INTERNAL_DIAGONAL = [P - 2, ...INTERNAL_SHIFTS];
+
+/**
+ * Grain LFSR seeded with the instance parameters; returns rounds x width
+ * constants sampled with rejection. Partial rounds use only the first of their row.
+ */
+export function generateRoundConstants(
+  width: number = POSEIDON2_WIDTH,
+  roundsFull: number = ROUNDS_FULL,
+  roundsPartial: number = ROUNDS_PARTIAL
+): number[][] {
+  const state: number[] = [];
+  const writeBits = (value: number, count: number) => {
+    for (let i = count - 1; i >= 0; i--) state.push(Math.floor(value / 2 ** i) % 2);
+  };
+  writeBits(1, 2); // prime field
+  writeBits(0, 4); // x^alpha S-box
+  writeBits(31, 12); // field size in bits
+  writeBits(width, 12);
+  writeBits(roundsFull, 10);
+  writeBits(roundsPartial, 10);
+  writeBits(2 ** 30 - 1, 30);
+
+  let position = 0;
+  const nextBit = () => {
+    const at = (offset: number) => state[(position + offset) % 80];
+    const bit = at(62) ^ at(51) ^ at(38) ^ at(23) ^ at(13) ^ at(0);
+    state[position] = bit;
+    position = (position + 1) % 80;
+    return bit;
+  };
+  for (let i = 0; i < 160; i++) nextBit();
+
+  // Shrinking generator: keep the second bit of each pair whose first bit is set
+  const outputBit = () => {
+    for (;;) {
+      const keep = nextBit();
+      const bit = nextBit();
+      if (keep) return bit;
+    }
+  };
+
+  const constants: number[][] = [];
+  for (let r = 0; r < roundsFull + roundsPartial; r++) {
+    const row: number[] = [];
+    while (row.length < width) {
+      let value = 0;
+      for (let i = 0; i < 31; i++) value = value * 2 + outputBit();
+      if (value < P) row.push(value);
+    }
+    constants.push(row);
+  }
+  return constants;
+}
+
+const ROUND_CONSTANTS = generateRoundConstants();
+
+// The first and last ROUNDS_FULL / 2 rounds apply the S-box to every lane
+export function isFullRound(round: number): boolean {
+  return round < ROUNDS_FULL / 2 || round >= ROUNDS_FULL / 2 + ROUNDS_PARTIAL;
+}
+
+// Constants added before a round's S-boxes; partial rounds use only the first
+export function roundConstants(round: number): number[] {
+  const constants = ROUND_CONSTANTS[round];
+  return isFullRound(round) ? constants.slice() : constants.map((c, i) => i === 0 ? c : 0);
+}
+
+function sbox(x: number): number {
+  const x2 = mMul(x, x);
+  return mMul(mMul(x2, x2), x);
+}
+
+// Linear layers add up small multiples of field elements as plain numbers
+// (well below 2^53) and reduce once at the end
+function externalLayer(state: number[]): void {
+  const sums = [0, 0, 0, 0];
+  for (let chunk = 0; chunk < POSEIDON2_WIDTH; chunk += 4) {
+    // M4 = [[5, 7, 1, 3], [4, 6, 1, 1], [1, 3, 5, 7], [1, 1, 4, 6]] as the paper's addition chain
+    const x0 = state[chunk], x1 = state[chunk + 1], x2 = state[chunk + 2], x3 = state[chunk + 3];
+    const t0 = x0 + x1;
+    const t1 = x2 + x3;
+    const t2 = 2 * x1 + t1;
+    const t3 = 2 * x3 + t0;
+    const t4 = 4 * t1 + t3;
+    const t5 = 4 * t0 + t2;
+    const y = [mReduce(t3 + t5), mReduce(t5), mReduce(t2 + t4), mReduce(t4)];
+    for (let i = 0; i < 4; i++) {
+      state[chunk + i] = y[i];
+      sums[i] += y[i];
+    }
+  }
+  for (let i = 0; i < POSEIDON2_WIDTH; i++) {
+    state[i] = mReduce(state[i] + sums[i % 4]);
+  }
+}
+
+function internalLayer(state: number[]): void {
+  let sum = 0;
+  for (const x of state) sum += x;
+  state[0] = mReduce(sum + 2 * (P - state[0]));
+  for (let i = 1; i < POSEIDON2_WIDTH; i++) {
+    state[i] = mReduce(sum + INTERNAL_SHIFTS[i - 1] * state[i]);
+  }
+}
+
+/**
+ * Permute a state. With `rounds` set, the state after the initial linear
+ * layer and after each round is pushed onto it (the STARK's witness).
+ */
+// The linear layers over QM31, for evaluating the STARK's permutation
+// constraints away from the trace rows
+export function externalLayerQM31(state: QM31[]): QM31[] {
+  const out: QM31[] = [];
+  const sums = [Q.ZERO, Q.ZERO, Q.ZERO, Q.ZERO];
+  for (let chunk = 0; chunk < POSEIDON2_WIDTH; chunk += 4) {
+    const [x0, x1, x2, x3] = state.slice(chunk, chunk + 4);
+    const t0 = Q.add(x0, x1);
+    const t1 = Q.add(x2, x3);
+    const t2 = Q.add(Q.add(x1, x1), t1);
+    const t3 = Q.add(Q.add(x3, x3), t0);
+    const t4 = Q.add(Q.mulBase(t1, 4), t3);
+    const t5 = Q.add(Q.mulBase(t0, 4), t2);
+    const y = [Q.add(t3, t5), t5, Q.add(t2, t4), t4];
+    for (let i = 0; i < 4; i++) {
+      out.push(y[i]);
+      sums[i] = Q.add(sums[i], y[i]);
+    }
+  }
+  return out.map((y, i) => Q.add(y, sums[i % 4]));
+}
+
+export function internalLayerQM31(state: QM31[]): QM31[] {
+  const sum = state.reduce(Q.add, Q.ZERO);
+  return state.map((x, i) => Q.add(sum, Q.mulBase(x, INTERNAL_DIAGONAL[i])));
+}
+
+export function poseidon2Permute(input: number[], rounds?: number[][]): number[] {
+  if (input.length !== POSEIDON2_WIDTH || !input.every(x => Number.isInteger(x) && x >= 0 && x < P)) {
+    throw new Error(`Poseidon2 state must be ${POSEIDON2_WIDTH} field elements`);
+  }
+
+  const state = input.slice();
+  externalLayer(state);
+  rounds?.push(state.slice());
+
+  for (let r = 0; r < POSEIDON2_ROUNDS; r++) {
+    const constants = ROUND_CONSTANTS[r];
+    if (isFullRound(r)) {
+      for (let i = 0; i < POSEIDON2_WIDTH; i++) state[i] = sbox(mAdd(state[i], constants[i]));
+      externalLayer(state);
+    } else {
+      state[0] = sbox(mAdd(state[0], constants[0]));
+      internalLayer(state);
+    }
+    rounds?.push(state.slice());
+  }
+
+  return state;
+}
+
+/**
+ * Sponge hash of any number of field elements to an 8-element digest.
+ * The input length seeds the capacity, so no padding ambiguity.
+ */
+export function poseidon2Hash(inputs: number[]): number[] {
+  let state = new Array(POSEIDON2_WIDTH).fill(0);
+  state[POSEIDON2_RATE] = inputs.length % P;
+
+  for (let offset = 0; offset < inputs.length || offset === 0; offset += POSEIDON2_RATE) {
+    for (let i = 0; i < POSEIDON2_RATE && offset + i < inputs.length; i++) {
+      state[i] = mAdd(state[i], inputs[offset + i]);
+    }
+    state = poseidon2Permute(state);
+  }
+
+  return state.slice(0, POSEIDON2_DIGEST);
+}
+
+/**
+ * 2-to-1 compression for Merkle nodes: permute left || right and keep the
+ * first half, with the inputs added back (feed-forward) so it isn't invertible
+ */
+export function poseidon2Compress(left: number[], right: number[]): number[] {
+  const input = [...left, ...right];
+  const output = poseidon2Permute(input);
+  return output.slice(0, POSEIDON2_DIGEST).map((x, i) => mAdd(x, input[i]));
+}
+
+// Bytes to field elements, 3 bytes (24 bits) per element
+export function bytesToElements(bytes: Buffer): number[] {
+  const elements: number[] = [];
+  for (let i = 0; i < bytes.length; i += 3) {
+    elements.push(bytes[i] + ((bytes[i + 1] ?? 0) << 8) + ((bytes[i + 2] ?? 0) << 16));
+  }
+  return elements;
+}
+
+// Digests travel as 64 hex chars: 8 little-endian 32-bit words
+export function digestToHex(digest: number[]): string {
+  const buffer = Buffer.alloc(digest.length * 4);
+  digest.forEach((x, i) => buffer.writeUInt32LE(x, i * 4));
+  return buffer.toString('hex');
+}
+
+export function hexToDigest(hex: string): number[] | null {
+  if (!/^[0-9a-f]{64}$/.test(hex)) {
+    return null;
+  }
+  const buffer = Buffer.from(hex, 'hex');
+  const digest = Array.from({ length: POSEIDON2_DIGEST }, (_, i) => buffer.readUInt32LE(i * 4));
+  return digest.every(x => x < P) ? digest : null;
+}
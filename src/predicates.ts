@@ -0,0 +1,191 @@
+/**
+ * Predicates over a verification result, proven without revealing the result
+ *
+ *   score in [60, 90] && tier >= good && passed(liveness, capability_trading) && traceCount >= 100
+ *
+ * Clauses are joined with && only. stark.ts compiles them into constraints.
+ */
+
+import { TIER_RANK } from './types';
+
+export type PredicateField = 'score' | 'tier' | 'traceCount';
+
+export type PredicateClause =
+  | { field: PredicateField; op: '>=' | '<=' | '=='; value: number | string }
+  | { field: PredicateField; min: number | string; max: number | string }
+  | { passed: string[] };
+
+export type Predicate = PredicateClause[];
+
+// The parts of a verification result a predicate can talk about
+export interface PredicateSubject {
+  score: number;
+  tier?: string;
+  checks: Record<string, boolean>;
+  behavioral?: { traceCount: number };
+}
+
+/**
+ * Normalized predicate: witness values by key ('score', 'tier', 'traceCount'),
+ * lower/upper bounds on them, exact values and the checks that must have passed
+ */
+export interface PredicateTerms {
+  keys: string[];
+  bounds: Array<{ key: string; op: '>=' | '<='; bound: number }>;
+  equalities: Array<{ key: string; value: number }>;
+  passed: string[];
+}
+
+// Values and bounds stay below 2^30 so range checks can't wrap around the field
+export const PREDICATE_VALUE_LIMIT = 2 ** 30;
+
+const FIELDS: PredicateField[] = ['score', 'tier', 'traceCount'];
+const CHECK_NAME = /^[\w.:-]+$/;
+const TIER_NAMES = Object.keys(TIER_RANK).sort((a, b) => TIER_RANK[a] - TIER_RANK[b]);
+
+function boundValue(field: PredicateField, value: number | string): number {
+  if (field === 'tier') {
+    const rank = TIER_RANK[String(value)];
+    if (rank === undefined) {
+      throw new Error(`Unknown tier: ${value} (expected ${TIER_NAMES.join(', ')})`);
+    }
+    return rank;
+  }
+
+  const number = typeof value === 'string' && /^\d+$/.test(value) ? parseInt(value) : value;
+  if (typeof number !== 'number' || !Number.isInteger(number) || number < 0 || number >= PREDICATE_VALUE_LIMIT) {
+    throw new Error(`Invalid ${field} bound: ${value}`);
+  }
+  return number;
+}
+
+function formatValue(field: PredicateField, value: number | string): string {
+  return field === 'tier' ? TIER_NAMES[boundValue(field, value)] : String(boundValue(field, value));
+}
+
+function parseClause(text: string): PredicateClause {
+  const passed = text.match(/^passed\(([^)]*)\)$/);
+  if (passed) {
+    return { passed: passed[1].split(',').map(name => name.trim()) };
+  }
+
+  const range = text.match(/^(\w+)\s+in\s+\[\s*([\w-]+)\s*,\s*([\w-]+)\s*\]$/);
+  if (range) {
+    return { field: range[1] as PredicateField, min: range[2], max: range[3] };
+  }
+
+  const comparison = text.match(/^(\w+)\s*(>=|<=|==)\s*([\w-]+)$/);
+  if (comparison) {
+    return { field: comparison[1] as PredicateField, op: comparison[2] as '>=' | '<=' | '==', value: comparison[3] };
+  }
+
+  throw new Error(`Cannot parse predicate clause: ${text}`);
+}
+
+/**
+ * Parse the text form, or validate the clause-list form. Throws on anything
+ * that isn't a well-formed predicate.
+ */
+export function parsePredicate(input: Predicate | string): Predicate {
+  const clauses = typeof input === 'string'
+    ? input.split('&&').map(text => text.trim()).filter(Boolean).map(parseClause)
+    : input;
+
+  if (!Array.isArray(clauses) || clauses.length === 0) {
+    throw new Error('Predicate has no clauses');
+  }
+
+  return clauses.map(clause => {
+    if (!clause || typeof clause !== 'object') {
+      throw new Error('Invalid predicate clause');
+    }
+
+    if ('passed' in clause) {
+      if (!Array.isArray(clause.passed) || clause.passed.length === 0 ||
+          !clause.passed.every(name => typeof name === 'string' && CHECK_NAME.test(name))) {
+        throw new Error('passed() needs one or more check names');
+      }
+      return { passed: [...clause.passed] };
+    }
+
+    if (!FIELDS.includes(clause.field)) {
+      throw new Error(`Unknown predicate field: ${clause.field} (expected ${FIELDS.join(', ')})`);
+    }
+
+    if ('min' in clause) {
+      const min = boundValue(clause.field, clause.min);
+      const max = boundValue(clause.field, clause.max);
+      if (min > max) {
+        throw new Error(`Empty range for ${clause.field}: [${clause.min}, ${clause.max}]`);
+      }
+      return { field: clause.field, min: clause.min, max: clause.max };
+    }
+
+    if (!['>=', '<=', '=='].includes(clause.op)) {
+      throw new Error(`Unknown predicate operator: ${clause.op}`);
+    }
+    boundValue(clause.field, clause.value);
+    return { field: clause.field, op: clause.op, value: clause.value };
+  });
+}
+
+/**
+ * Canonical text form; this is what proofs carry as a public input
+ */
+export function formatPredicate(predicate: Predicate): string {
+  return predicate.map(clause => {
+    if ('passed' in clause) {
+      return `passed(${clause.passed.join(', ')})`;
+    }
+    if ('min' in clause) {
+      return `${clause.field} in [${formatValue(clause.field, clause.min)}, ${formatValue(clause.field, clause.max)}]`;
+    }
+    return `${clause.field} ${clause.op} ${formatValue(clause.field, clause.value)}`;
+  }).join(' && ');
+}
+
+export function compilePredicate(predicate: Predicate): PredicateTerms {
+  const terms: PredicateTerms = { keys: [], bounds: [], equalities: [], passed: [] };
+  const use = (key: string) => {
+    if (!terms.keys.includes(key)) terms.keys.push(key);
+    return key;
+  };
+
+  for (const clause of predicate) {
+    if ('passed' in clause) {
+      clause.passed.forEach(name => {
+        if (!terms.passed.includes(name)) terms.passed.push(name);
+      });
+    } else if ('min' in clause) {
+      const key = use(clause.field);
+      terms.bounds.push(
+        { key, op: '>=', bound: boundValue(clause.field, clause.min) },
+        { key, op: '<=', bound: boundValue(clause.field, clause.max) }
+      );
+    } else if (clause.op === '==') {
+      terms.equalities.push({ key: use(clause.field), value: boundValue(clause.field, clause.value) });
+    } else {
+      terms.bounds.push({ key: use(clause.field), op: clause.op, bound: boundValue(clause.field, clause.value) });
+    }
+  }
+
+  return terms;
+}
+
+export function subjectValue(key: string, subject: PredicateSubject): number {
+  switch (key) {
+    case 'score': return Math.max(0, Math.round(subject.score));
+    case 'tier': return TIER_RANK[subject.tier || 'needs-work'] ?? 0;
+    case 'traceCount': return Math.min(subject.behavioral?.traceCount || 0, PREDICATE_VALUE_LIMIT - 1);
+    default: throw new Error(`Unknown predicate key: ${key}`);
+  }
+}
+
+export function evaluatePredicate(predicate: Predicate, subject: PredicateSubject): boolean {
+  const { bounds, equalities, passed } = compilePredicate(predicate);
+  return bounds.every(({ key, op, bound }) => {
+    const value = subjectValue(key, subject);
+    return op === '>=' ? value >= bound : value <= bound;
+  }) && equalities.every(({ key, value }) => subjectValue(key, subject) === value) &&
+    passed.every(name => subject.checks[name]);
+}
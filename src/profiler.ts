@@ -0,0 +1,185 @@
+/**
+ * Latency and load profiling for comprehensive verification
+ */
+
+import axios from 'axios';
+
+export interface ProfileOptions {
+  sequentialRequests: number;
+  concurrentRequests: number;
+  concurrency: number;
+  timeout: number; // per request
+  budgetMs: number; // whole profile; later requests aren't sent, running ones time out at the end
+}
+
+export interface ProfileThresholds {
+  p95Ms: number;
+  p99Ms: number;
+  maxErrorRate: number;
+  minThroughput: number; // successful requests per second under load
+}
+
+export interface LatencyStats {
+  requests: number;
+  errors: number;
+  throttled: number;
+  errorRate: number;
+  p50: number;
+  p95: number;
+  p99: number;
+  min: number;
+  max: number;
+  mean: number;
+}
+
+export interface LatencyProfile {
+  sequential: LatencyStats;
+  concurrent: LatencyStats & { concurrency: number; throughput: number };
+  overall: LatencyStats;
+}
+
+export const DEFAULT_PROFILE_OPTIONS: ProfileOptions = {
+  sequentialRequests: parseInt(process.env.PROFILE_SEQUENTIAL || '') || 10,
+  concurrentRequests: parseInt(process.env.PROFILE_CONCURRENT || '') || 20,
+  concurrency: parseInt(process.env.PROFILE_CONCURRENCY || '') || 5,
+  timeout: 10000,
+  // Below the loadProfile check's 120s timeout, so slow endpoints still get a result
+  budgetMs: 100000
+};
+
+export const DEFAULT_PROFILE_THRESHOLDS: ProfileThresholds = {
+  p95Ms: 1000,
+  p99Ms: 2500,
+  maxErrorRate: 0.05,
+  minThroughput: 5
+};
+
+export interface Sample {
+  latency: number;
+  ok: boolean;
+  throttled: boolean;
+}
+
+/**
+ * Send sequential then concurrent requests and summarize latency
+ */
+export async function profileEndpoint(
+  endpoint: string,
+  options: Partial<ProfileOptions> = {}
+): Promise<LatencyProfile> {
+  const opts = { ...DEFAULT_PROFILE_OPTIONS, ...options };
+  const deadline = Date.now() + opts.budgetMs;
+  // The sequential phase leaves at least half the budget for the load phase
+  const sequentialDeadline = Date.now() + opts.budgetMs / 2;
+  // Request timeouts end at the deadline (axios treats 0 as no timeout)
+  const timeoutBefore = (end: number) => Math.max(1, Math.min(opts.timeout, end - Date.now()));
+
+  const sequential: Sample[] = [];
+  for (let i = 0; i < opts.sequentialRequests && Date.now() < sequentialDeadline; i++) {
+    sequential.push(await sample(endpoint, timeoutBefore(sequentialDeadline)));
+  }
+
+  const concurrent: Sample[] = [];
+  let next = 0;
+  const started = Date.now();
+  const worker = async () => {
+    while (next < opts.concurrentRequests && Date.now() < deadline) {
+      next++;
+      concurrent.push(await sample(endpoint, timeoutBefore(deadline)));
+    }
+  };
+  await Promise.all(Array(Math.max(1, opts.concurrency)).fill(null).map(worker));
+  const elapsedSeconds = Math.max(0.001, (Date.now() - started) / 1000);
+
+  const concurrentStats = summarize(concurrent);
+  const successful = concurrent.filter(s => s.ok).length;
+
+  return {
+    sequential: summarize(sequential),
+    concurrent: {
+      ...concurrentStats,
+      concurrency: opts.concurrency,
+      throughput: Math.round((successful / elapsedSeconds) * 100) / 100
+    },
+    overall: summarize([...sequential, ...concurrent])
+  };
+}
+
+/**
+ * Compare a profile to thresholds. Credit is the share of thresholds met.
+ */
+export function evaluateProfile(
+  profile: LatencyProfile,
+  thresholds: ProfileThresholds = DEFAULT_PROFILE_THRESHOLDS
+): { passed: boolean; credit: number; failures: string[] } {
+  // Percentiles only count if at least one request succeeded
+  const { requests, errors, throttled, p95, p99 } = profile.overall;
+  const measured = requests > errors + throttled;
+
+  const results: Array<[boolean, string]> = [
+    [measured && p95 <= thresholds.p95Ms, measured ? `p95 ${p95}ms > ${thresholds.p95Ms}ms` : 'no successful requests'],
+    [measured && p99 <= thresholds.p99Ms, measured ? `p99 ${p99}ms > ${thresholds.p99Ms}ms` : 'no successful requests'],
+    [
+      profile.concurrent.errorRate <= thresholds.maxErrorRate,
+      `error rate under load ${Math.round(profile.concurrent.errorRate * 100)}% > ${thresholds.maxErrorRate * 100}%`
+    ],
+    [
+      profile.concurrent.throughput >= thresholds.minThroughput,
+      `throughput ${profile.concurrent.throughput} req/s < ${thresholds.minThroughput} req/s`
+    ]
+  ];
+
+  const failures = results.filter(([ok]) => !ok).map(([, message]) => message);
+
+  return {
+    passed: failures.length === 0,
+    credit: (results.length - failures.length) / results.length,
+    failures
+  };
+}
+
+async function sample(endpoint: string, timeout: number): Promise<Sample> {
+  const start = Date.now();
+  try {
+    const response = await axios.get(endpoint, { timeout, validateStatus: () => true });
+    return {
+      latency: Date.now() - start,
+      ok: response.status >= 200 && response.status < 400,
+      // Rate limiting is expected behaviour, not an error
+      throttled: response.status === 429
+    };
+  } catch {
+    return { latency: Date.now() - start, ok: false, throttled: false };
+  }
+}
+
+export function summarize(samples: Sample[]): LatencyStats {
+  const throttled = samples.filter(s => s.throttled).length;
+  const errors = samples.filter(s => !s.ok && !s.throttled).length;
+  const latencies = samples.filter(s => s.ok).map(s => s.latency).sort((a, b) => a - b);
+  const counted = samples.length - throttled;
+
+  return {
+    requests: samples.length,
+    errors,
+    throttled,
+    errorRate: counted > 0 ? Math.round((errors / counted) * 1000) / 1000 : 0,
+    p50: percentile(latencies, 50),
+    p95: percentile(latencies, 95),
+    p99: percentile(latencies, 99),
+    min: latencies[0] || 0,
+    max: latencies[latencies.length - 1] || 0,
+    mean: latencies.length > 0
+      ? Math.round(latencies.reduce((sum, l) => sum + l, 0) / latencies.length)
+      : 0
+  };
+}
+
+// Nearest-rank percentile over sorted values
+export function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) {
+    return 0;
+  }
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(sorted.length, Math.max(1, rank)) - 1];
+}
@@ -0,0 +1,55 @@
+/**
+ * Live progress for running verifications (fed to Server-Sent Events)
+ */
+
+import { EventEmitter } from 'events';
+import { CheckProgress } from './verifier';
+
+export interface ProgressEvent {
+  type: 'status' | CheckProgress['type'] | 'result';
+  verificationId: string;
+  at: string;
+  status?: string;
+  check?: string;
+  success?: boolean;
+  detail?: string;
+  durationMs?: number;
+  result?: any;
+}
+
+// How long a finished run's events stay available for late subscribers
+const RETAIN_MS = 60 * 1000;
+
+export class ProgressHub {
+  private emitter = new EventEmitter();
+  private history = new Map<string, ProgressEvent[]>();
+
+  constructor() {
+    this.emitter.setMaxListeners(0);
+  }
+
+  publish(event: Omit<ProgressEvent, 'at'>): void {
+    const full: ProgressEvent = { ...event, at: new Date().toISOString() };
+    const events = this.history.get(event.verificationId) || [];
+    events.push(full);
+    this.history.set(event.verificationId, events);
+
+    this.emitter.emit(event.verificationId, full);
+
+    if (event.type === 'result') {
+      setTimeout(() => this.history.delete(event.verificationId), RETAIN_MS).unref();
+    }
+  }
+
+  /**
+   * Replay events so far, then follow new ones. Returns an unsubscribe function.
+   */
+  subscribe(verificationId: string, listener: (event: ProgressEvent) => void): () => void {
+    for (const event of this.history.get(verificationId) || []) {
+      listener(event);
+    }
+
+    this.emitter.on(verificationId, listener);
+    return () => this.emitter.off(verificationId, listener);
+  }
+}
@@ -0,0 +1,181 @@
+/**
+ * Runs STARK proving on a pool of long-lived worker threads, off the server's event loop
+ */
+
+import path from 'path';
+import { Worker, isMainThread, parentPort, workerData } from 'worker_threads';
+import {
+  CircuitInputs,
+  PredicateInputs,
+  StarkProof,
+  StatementError,
+  generatePredicateProof,
+  generateStarkProof,
+  verifyStarkProof
+} from './stark';
+
+export type ProofRequest =
+  | { kind: 'threshold'; inputs: CircuitInputs }
+  | { kind: 'predicate'; inputs: PredicateInputs };
+
+export interface ProvedStatement {
+  proof: StarkProof;
+  valid: boolean; // verifyStarkProof on the finished proof, run on the same worker
+}
+
+export interface ProverOptions {
+  concurrency: number; // proofs running at once, one worker each; workers are kept for later proofs
+  maxQueued: number; // requests waiting for a worker beyond this are refused
+}
+
+export const DEFAULT_PROVER_OPTIONS: ProverOptions = {
+  concurrency: parseInt(process.env.PROVER_CONCURRENCY || '') || 1,
+  maxQueued: parseInt(process.env.PROVER_MAX_QUEUED || '') || 8
+};
+
+// Every worker is busy and the queue is full; worth retrying later
+export class ProverBusyError extends Error {
+  constructor() {
+    super('Prover is busy');
+    this.name = 'ProverBusyError';
+  }
+}
+
+// The statement can't be proven (not satisfied, result expired, ...); any other failure is a plain Error
+export class ProofError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProofError';
+  }
+}
+
+// Under ts-node (npm run dev, tests) the worker has to load this .ts file too
+const WORKER_EXEC_ARGV = path.extname(__filename) === '.ts'
+  ? ['--require', 'ts-node/register/transpile-only']
+  : undefined;
+
+interface WorkerReply {
+  result?: ProvedStatement;
+  error?: string;
+  statement?: boolean; // the error is a StatementError
+}
+
+// One worker thread, proving one request at a time
+class PooledWorker {
+  alive = true;
+  private worker: Worker;
+  private pending?: { resolve: (result: ProvedStatement) => void; reject: (error: Error) => void };
+
+  constructor() {
+    this.worker = new Worker(__filename, { workerData: { proofWorker: true }, execArgv: WORKER_EXEC_ARGV });
+    // Idle workers don't keep the process alive
+    this.worker.unref();
+
+    this.worker.on('message', (message: WorkerReply) => {
+      const pending = this.settle();
+      if (message.error === undefined) {
+        pending?.resolve(message.result!);
+      } else {
+        pending?.reject(message.statement ? new ProofError(message.error) : new Error(message.error));
+      }
+    });
+    this.worker.on('error', error => {
+      this.alive = false;
+      this.settle()?.reject(error);
+    });
+    this.worker.on('exit', code => {
+      this.alive = false;
+      this.settle()?.reject(new Error(`Prover worker exited with code ${code}`));
+    });
+  }
+
+  run(request: ProofRequest): Promise<ProvedStatement> {
+    return new Promise((resolve, reject) => {
+      this.pending = { resolve, reject };
+      this.worker.ref();
+      this.worker.postMessage(request);
+    });
+  }
+
+  private settle() {
+    const pending = this.pending;
+    this.pending = undefined;
+    this.worker.unref();
+    return pending;
+  }
+}
+
+export class ProofWorkers {
+  private options: ProverOptions;
+  private running = 0;
+  private waiting: Array<() => void> = [];
+  private idle: PooledWorker[] = [];
+
+  constructor(options: Partial<ProverOptions> = {}) {
+    this.options = { ...DEFAULT_PROVER_OPTIONS, ...options };
+  }
+
+  async prove(request: ProofRequest): Promise<ProvedStatement> {
+    await this.acquire();
+    // Started on first use; never more than `concurrency` since each holds a slot
+    const worker = this.idle.pop() || new PooledWorker();
+    try {
+      return await worker.run(request);
+    } finally {
+      // A worker that crashed is replaced on a later request
+      if (worker.alive) {
+        this.idle.push(worker);
+      }
+      this.release();
+    }
+  }
+
+  stats() {
+    return {
+      running: this.running,
+      queued: this.waiting.length,
+      idleWorkers: this.idle.length,
+      concurrency: this.options.concurrency
+    };
+  }
+
+  private acquire(): Promise<void> {
+    if (this.running < this.options.concurrency) {
+      this.running++;
+      return Promise.resolve();
+    }
+    if (this.waiting.length >= this.options.maxQueued) {
+      return Promise.reject(new ProverBusyError());
+    }
+    return new Promise(resolve => this.waiting.push(resolve));
+  }
+
+  // Hand the slot straight to the next waiter, if any
+  private release(): void {
+    const next = this.waiting.shift();
+    if (next) {
+      next();
+    } else {
+      this.running--;
+    }
+  }
+}
+
+function proveRequest(request: ProofRequest): ProvedStatement {
+  const proof = request.kind === 'predicate'
+    ? generatePredicateProof(request.inputs)
+    : generateStarkProof(request.inputs);
+  return { proof, valid: verifyStarkProof(proof) };
+}
+
+if (!isMainThread && workerData?.proofWorker) {
+  parentPort!.on('message', (request: ProofRequest) => {
+    let reply: WorkerReply;
+    try {
+      reply = { result: proveRequest(request) };
+    } catch (error: any) {
+      reply = { error: error.message, statement: error instanceof StatementError };
+    }
+    parentPort!.postMessage(reply);
+  });
+}
@@ -0,0 +1,186 @@
+/**
+ * Durable verification job queue with concurrency limits, retries and cancellation
+ */
+
+import { Storage, VerificationJob } from './storage';
+
+export interface QueueOptions {
+  concurrency: number;
+  perEndpointConcurrency: number;
+  maxAttempts: number;
+  backoffMs: number;
+}
+
+export interface QueueHandlers {
+  run(job: VerificationJob, isCancelled: () => boolean): Promise<void>;
+  onFailure(job: VerificationJob, error: Error): void;
+}
+
+// Thrown by a job handler when the failure is worth retrying
+export class TransientError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TransientError';
+  }
+}
+
+export const DEFAULT_QUEUE_OPTIONS: QueueOptions = {
+  concurrency: parseInt(process.env.QUEUE_CONCURRENCY || '') || 4,
+  perEndpointConcurrency: parseInt(process.env.QUEUE_PER_ENDPOINT || '') || 1,
+  maxAttempts: parseInt(process.env.QUEUE_MAX_ATTEMPTS || '') || 3,
+  backoffMs: parseInt(process.env.QUEUE_BACKOFF_MS || '') || 2000
+};
+
+// Jobs against the same host share a concurrency slot
+function endpointKey(endpoint: string): string {
+  try {
+    return new URL(endpoint).host.toLowerCase();
+  } catch {
+    return endpoint.toLowerCase();
+  }
+}
+
+export class VerificationQueue {
+  private storage: Storage;
+  private handlers: QueueHandlers;
+  private options: QueueOptions;
+  private running = new Set<string>();
+  private runningByEndpoint = new Map<string, number>();
+  private timer?: NodeJS.Timeout;
+
+  constructor(storage: Storage, handlers: QueueHandlers, options: Partial<QueueOptions> = {}) {
+    this.storage = storage;
+    this.handlers = handlers;
+    this.options = { ...DEFAULT_QUEUE_OPTIONS, ...options };
+  }
+
+  /**
+   * Add a job and start it as soon as a slot is free
+   */
+  enqueue(job: Omit<VerificationJob, 'status' | 'attempts' | 'createdAt' | 'updatedAt'>): VerificationJob {
+    const now = new Date().toISOString();
+    const queued: VerificationJob = {
+      ...job,
+      status: 'queued',
+      attempts: 0,
+      createdAt: now,
+      updatedAt: now
+    };
+
+    this.storage.saveJob(queued);
+    this.pump();
+    return queued;
+  }
+
+  /**
+   * Cancel a queued or running job. A running job finishes its current
+   * request but its result is discarded.
+   */
+  cancel(id: string): boolean {
+    const job = this.storage.getJob(id);
+    if (!job || (job.status !== 'queued' && job.status !== 'running')) {
+      return false;
+    }
+
+    this.update(job, { status: 'cancelled' });
+    return true;
+  }
+
+  /**
+   * Requeue jobs left queued or running by a previous process
+   */
+  resume(): number {
+    const orphaned = this.storage.listJobs(['queued', 'running']);
+    for (const job of orphaned) {
+      this.update(job, { status: 'queued', nextAttemptAt: undefined });
+    }
+
+    this.pump();
+    return orphaned.length;
+  }
+
+  stats() {
+    return {
+      running: this.running.size,
+      queued: this.storage.listJobs(['queued']).length,
+      concurrency: this.options.concurrency
+    };
+  }
+
+  private pump() {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+
+    const now = Date.now();
+    let nextWake = Infinity;
+
+    for (const job of this.storage.listJobs(['queued'])) {
+      if (this.running.size >= this.options.concurrency) {
+        break;
+      }
+
+      if (job.nextAttemptAt && Date.parse(job.nextAttemptAt) > now) {
+        nextWake = Math.min(nextWake, Date.parse(job.nextAttemptAt));
+        continue;
+      }
+
+      const key = endpointKey(job.endpoint);
+      if ((this.runningByEndpoint.get(key) || 0) >= this.options.perEndpointConcurrency) {
+        continue;
+      }
+
+      this.start(job, key);
+    }
+
+    // Wake up for the earliest pending retry
+    if (nextWake !== Infinity) {
+      this.timer = setTimeout(() => this.pump(), Math.max(0, nextWake - now));
+    }
+  }
+
+  private async start(job: VerificationJob, key: string) {
+    this.running.add(job.id);
+    this.runningByEndpoint.set(key, (this.runningByEndpoint.get(key) || 0) + 1);
+    this.update(job, { status: 'running', attempts: job.attempts + 1 });
+
+    const isCancelled = () => this.storage.getJob(job.id)?.status === 'cancelled';
+
+    try {
+      await this.handlers.run(job, isCancelled);
+      if (!isCancelled()) {
+        this.update(job, { status: 'completed', lastError: undefined });
+      }
+    } catch (error: any) {
+      if (!isCancelled()) {
+        this.handleError(job, error);
+      }
+    } finally {
+      this.running.delete(job.id);
+      this.runningByEndpoint.set(key, (this.runningByEndpoint.get(key) || 1) - 1);
+      this.pump();
+    }
+  }
+
+  private handleError(job: VerificationJob, error: Error) {
+    if (error instanceof TransientError && job.attempts < this.options.maxAttempts) {
+      // Exponential backoff: backoffMs, 2x, 4x, ...
+      const delay = this.options.backoffMs * Math.pow(2, job.attempts - 1);
+      this.update(job, {
+        status: 'queued',
+        lastError: error.message,
+        nextAttemptAt: new Date(Date.now() + delay).toISOString()
+      });
+      return;
+    }
+
+    this.update(job, { status: 'failed', lastError: error.message });
+    this.handlers.onFailure(job, error);
+  }
+
+  private update(job: VerificationJob, changes: Partial<VerificationJob>) {
+    Object.assign(job, changes, { updatedAt: new Date().toISOString() });
+    this.storage.saveJob(job);
+  }
+}
@@ -0,0 +1,47 @@
+/**
+ * Fixed-window request limits per key (API key, address, ...)
+ */
+
+export interface RateLimitOptions {
+  limit: number; // requests per window
+  windowMs: number;
+}
+
+export class RateLimiter {
+  private options: RateLimitOptions;
+  private windows = new Map<string, { start: number; count: number }>();
+
+  constructor(options: RateLimitOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Count a request. Returns 0 when it is allowed, otherwise the ms until
+   * the key's window resets.
+   */
+  take(key: string, now: number = Date.now()): number {
+    const { limit, windowMs } = this.options;
+    let window = this.windows.get(key);
+
+    if (!window || now - window.start >= windowMs) {
+      this.prune(now);
+      window = { start: now, count: 0 };
+      this.windows.set(key, window);
+    }
+
+    if (window.count >= limit) {
+      return window.start + windowMs - now;
+    }
+    window.count++;
+    return 0;
+  }
+
+  // Drop finished windows so idle keys don't accumulate
+  private prune(now: number): void {
+    for (const [key, window] of this.windows) {
+      if (now - window.start >= this.options.windowMs) {
+        this.windows.delete(key);
+      }
+    }
+  }
+}
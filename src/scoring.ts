@@ -0,0 +1,75 @@
+import { SCORE_WEIGHTS } from './types';
+
+// Self-reported signals supplied with a deep verification request
+export interface AgentSignals {
+  codeUrl?: string;
+  documentation?: boolean;
+  testCoverage?: number;
+  codeLines?: number;
+}
+
+// Nothing self-reported is checked, so together these signals stay well below the pass mark (60)
+export const SELF_REPORTED_MAX = 30;
+
+// Lines beyond this earn nothing more (15 points)
+export const MAX_CODE_LINES = 5000;
+
+export function validateSignals(signals: AgentSignals): string | null {
+  const { codeUrl, documentation, testCoverage, codeLines } = signals;
+
+  if (codeUrl !== undefined && (typeof codeUrl !== 'string' || !/^https?:\/\/\S+$/.test(codeUrl))) {
+    return 'codeUrl must be an http(s) URL';
+  }
+  if (documentation !== undefined && typeof documentation !== 'boolean') {
+    return 'documentation must be a boolean';
+  }
+  if (testCoverage !== undefined &&
+      (typeof testCoverage !== 'number' || !(testCoverage >= 0 && testCoverage <= 100))) {
+    return 'testCoverage must be a percentage from 0 to 100';
+  }
+  if (codeLines !== undefined && (!Number.isInteger(codeLines) || codeLines < 0)) {
+    return 'codeLines must be a non-negative integer';
+  }
+
+  return null;
+}
+
+// Live endpoint score (0-100, capabilities included) plus self-reported signals
+// as a bonus of at most SELF_REPORTED_MAX, capped at 100
+export function calculateSignalScore(endpointScore: number, signals: AgentSignals): number {
+  let selfReported = 0;
+
+  if (signals.codeUrl) {
+    selfReported += SCORE_WEIGHTS.hasGithub;
+  }
+
+  if (signals.codeLines && signals.codeLines > 0) {
+    selfReported += SCORE_WEIGHTS.codeLines * (Math.min(signals.codeLines, MAX_CODE_LINES) / 100);
+  }
+
+  if (signals.documentation) {
+    selfReported += SCORE_WEIGHTS.hasDocumentation;
+  }
+
+  if (signals.testCoverage && signals.testCoverage > 0) {
+    selfReported += SCORE_WEIGHTS.testCoverage * Math.min(signals.testCoverage, 100);
+  }
+
+  return Math.min(100, Math.round(endpointScore + Math.min(selfReported, SELF_REPORTED_MAX)));
+}
+
+// Score a deep verification, recording self-reported signals in details (not as verified checks).
+// Signals only count for an agent that passed liveness.
+export function applySignals(
+  checks: Record<string, boolean>,
+  details: Record<string, string>,
+  endpointScore: number,
+  signals: AgentSignals
+): number {
+  if (signals.codeUrl) details.codeUrl = signals.codeUrl;
+  if (signals.documentation) details.documentation = 'Documentation provided (self-reported)';
+  if (signals.testCoverage !== undefined) details.testCoverage = `${signals.testCoverage}% (self-reported)`;
+  if (signals.codeLines !== undefined) details.codeLines = `${signals.codeLines} lines (self-reported)`;
+
+  return calculateSignalScore(endpointScore, checks.liveness ? signals : {});
+}
@@ -0,0 +1,154 @@
+/**
+ * Signers for attestation transactions: local keypairs or a remote signing service
+ */
+
+import axios from 'axios';
+import { createPublicKey, verify } from 'crypto';
+import fs from 'fs';
+import { Keypair, PublicKey, Transaction } from '@solana/web3.js';
+
+export interface AttestationSigner {
+  getPublicKey(): Promise<PublicKey>;
+  // Adds this signer's signature to a transaction whose fee payer it is
+  signTransaction(transaction: Transaction): Promise<Transaction>;
+}
+
+/**
+ * Signs with an in-process keypair
+ */
+export class KeypairSigner implements AttestationSigner {
+  private keypair: Keypair;
+
+  constructor(keypair: Keypair) {
+    this.keypair = keypair;
+  }
+
+  // solana-keygen format: JSON array of the 64 secret key bytes
+  static fromSecret(secret: string): KeypairSigner {
+    return new KeypairSigner(Keypair.fromSecretKey(Buffer.from(JSON.parse(secret))));
+  }
+
+  static fromFile(filePath: string): KeypairSigner {
+    return KeypairSigner.fromSecret(fs.readFileSync(filePath, 'utf8'));
+  }
+
+  static fromEnv(name: string = 'PAYER_SECRET_KEY'): KeypairSigner {
+    const secret = process.env[name];
+    if (!secret) {
+      throw new Error(`${name} not configured`);
+    }
+    return KeypairSigner.fromSecret(secret);
+  }
+
+  async getPublicKey(): Promise<PublicKey> {
+    return this.keypair.publicKey;
+  }
+
+  async signTransaction(transaction: Transaction): Promise<Transaction> {
+    transaction.partialSign(this.keypair);
+    return transaction;
+  }
+}
+
+/**
+ * Delegates signing to an HTTP service that holds the key:
+ *   GET  <url>/public-key -> { publicKey: <base58> }
+ *   POST <url>/sign { message: <base64 serialized message> } -> { signature: <base64> }
+ */
+export class RemoteSigner implements AttestationSigner {
+  private url: string;
+  private token?: string;
+  private timeout: number;
+  private publicKey?: PublicKey;
+
+  constructor(url: string, token?: string, timeout: number = 10000) {
+    this.url = url.replace(/\/+$/, '');
+    this.token = token;
+    this.timeout = timeout;
+  }
+
+  async getPublicKey(): Promise<PublicKey> {
+    if (!this.publicKey) {
+      const response = await axios.get(`${this.url}/public-key`, {
+        headers: this.headers(),
+        timeout: this.timeout
+      });
+      this.publicKey = new PublicKey(response.data.publicKey);
+    }
+    return this.publicKey;
+  }
+
+  async signTransaction(transaction: Transaction): Promise<Transaction> {
+    const publicKey = await this.getPublicKey();
+    const message = transaction.serializeMessage();
+
+    const response = await axios.post(
+      `${this.url}/sign`,
+      { message: message.toString('base64') },
+      { headers: this.headers(), timeout: this.timeout }
+    );
+
+    transaction.addSignature(publicKey, Buffer.from(response.data.signature, 'base64'));
+
+    // Never send something the remote signed incorrectly
+    if (!transaction.verifySignatures(false)) {
+      throw new Error('Remote signer returned an invalid signature');
+    }
+
+    return transaction;
+  }
+
+  private headers(): Record<string, string> {
+    return this.token ? { Authorization: `Bearer ${this.token}` } : {};
+  }
+}
+
+/**
+ * Signer from the environment: REMOTE_SIGNER_URL, then PAYER_KEYPAIR_PATH,
+ * then PAYER_SECRET_KEY. Returns null when none is configured.
+ */
+export function createSigner(): AttestationSigner | null {
+  if (process.env.REMOTE_SIGNER_URL) {
+    return new RemoteSigner(process.env.REMOTE_SIGNER_URL, process.env.REMOTE_SIGNER_TOKEN);
+  }
+  if (process.env.PAYER_KEYPAIR_PATH) {
+    return KeypairSigner.fromFile(process.env.PAYER_KEYPAIR_PATH);
+  }
+  if (process.env.PAYER_SECRET_KEY) {
+    return KeypairSigner.fromEnv('PAYER_SECRET_KEY');
+  }
+  return null;
+}
+
+const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+
+// Transaction signatures are shown base58 like public keys
+export function encodeBase58(bytes: Uint8Array): string {
+  let value = BigInt('0x' + (Buffer.from(bytes).toString('hex') || '0'));
+  let encoded = '';
+  while (value > BigInt(0)) {
+    encoded = BASE58_ALPHABET[Number(value % BigInt(58))] + encoded;
+    value /= BigInt(58);
+  }
+
+  // Each leading zero byte is a leading '1'
+  for (const byte of bytes) {
+    if (byte !== 0) break;
+    encoded = '1' + encoded;
+  }
+
+  return encoded;
+}
+
+// Ed25519 signature (base64) by a Solana wallet over an off-chain message
+export function verifyWalletSignature(message: string, signature: string, walletAddress: string): boolean {
+  try {
+    const key = createPublicKey({
+      key: { kty: 'OKP', crv: 'Ed25519', x: new PublicKey(walletAddress).toBuffer().toString('base64url') },
+      format: 'jwk'
+    });
+    return verify(null, Buffer.from(message), key, Buffer.from(signature, 'base64'));
+  } catch {
+    return false;
+  }
+}
@@ -1,79 +1,70 @@
-/**
- * @deprecated This module uses simplified Poseidon hashing with non-standard constants.
- * It does NOT provide real STARK proofs or cryptographic security.
- * Use moltlaunch-site/stark-prover/ for the real implementation with FRI protocol.
- * 
- * Kept for backward compatibility only. Do not use for new integrations.
- */
-
 /**
  * STARK Proof Generation for Privacy-Preserving Verification
- * Uses M31 field (Mersenne-31) and Poseidon hash
- */
-
-// M31 Prime: 2^31 - 1
-const M31_PRIME = BigInt(2147483647);
-
-/**
- * M31 Field arithmetic operations
+ *
+ * Predicate proofs over M31: a predicate (see predicates.ts) compiles to an
+ * AIR whose witness is laid out as an execution trace, low-degree extended
+ * and Merkle committed; the equality and range checks are composed into a
+ * single quotient, and an FRI low-degree test ties it together. Challenges
+ * come from a Fiat-Shamir transcript. Threshold proofs are the predicate
+ * `score in [threshold, 125]`.
+ *
+ * Proofs are zero-knowledge: trace polynomials are masked with random
+ * multiples of the trace domain's vanishing polynomial, every commitment is
+ * salted, and FRI runs on the DEEP composition plus a random polynomial. The
+ * proof carries no witness values, only masked evaluations.
  */
-export const M31 = {
-  PRIME: M31_PRIME,
-
-  mod(n: bigint): bigint {
-    const result = n % M31_PRIME;
-    return result < 0n ? result + M31_PRIME : result;
-  },
-
-  add(a: bigint, b: bigint): bigint {
-    return this.mod(a + b);
-  },
-
-  sub(a: bigint, b: bigint): bigint {
-    return this.mod(a - b + M31_PRIME);
-  },
-
-  mul(a: bigint, b: bigint): bigint {
-    return this.mod(a * b);
-  },
-
-  pow(base: bigint, exp: bigint): bigint {
-    let result = 1n;
-    base = this.mod(base);
-    while (exp > 0n) {
-      if (exp % 2n === 1n) {
-        result = this.mul(result, base);
-      }
-      exp = exp / 2n;
-      base = this.mul(base, base);
-    }
-    return result;
-  },
 
-  inv(a: bigint): bigint {
-    return this.pow(a, M31_PRIME - 2n);
-  }
-};
+import { canonicalize } from './canonical';
+import {
+  DOMAIN_SHIFT,
+  M31,
+  Q,
+  QM31,
+  degreeBound,
+  domainPoints,
+  evaluateAt,
+  evaluateOnDomain,
+  interpolate,
+  mAdd,
+  mMul,
+  randomElements,
+  rootOfUnity,
+  log2
+} from './field';
+import { FriProof, MerkleOpening, Transcript, VectorCommitment, proveFri, verifyFri, verifyOpening } from './fri';
+import {
+  POSEIDON2_ID,
+  POSEIDON2_RATE,
+  POSEIDON2_ROUNDS,
+  POSEIDON2_WIDTH,
+  digestToHex,
+  externalLayerQM31,
+  hexToDigest,
+  internalLayerQM31,
+  isFullRound,
+  poseidon2Hash,
+  poseidon2Permute,
+  roundConstants
+} from './poseidon2';
+import {
+  Predicate,
+  PredicateSubject,
+  PredicateTerms,
+  compilePredicate,
+  evaluatePredicate,
+  formatPredicate,
+  parsePredicate,
+  subjectValue
+} from './predicates';
+
+export { M31 };
 
 /**
- * Poseidon hash (simplified for demonstration)
- * In production, use a proper Poseidon implementation
+ * Poseidon2 sponge over M31 (see poseidon2.ts); inputs are reduced into the
+ * field and the 8-element digest is returned as hex
  */
-export function poseidonHash(inputs: bigint[]): bigint {
-  let state = 0n;
-  const ROUND_CONSTANTS = [
-    1234567891n, 2345678912n, 3456789123n, 4567891234n,
-    5678912345n, 6789123456n, 7891234567n, 8912345678n
-  ];
-
-  for (let i = 0; i < inputs.length; i++) {
-    state = M31.add(state, inputs[i]);
-    state = M31.add(state, ROUND_CONSTANTS[i % ROUND_CONSTANTS.length]);
-    state = M31.pow(state, 5n); // S-box
-    state = M31.mod(state);
-  }
-
-  return state;
+export function poseidonHash(inputs: bigint[]): string {
+  return digestToHex(poseidon2Hash(inputs.map(input => Number(M31.mod(input)))));
 }
 
 /**
@@ -82,49 +73,432 @@ export function poseidonHash(inputs: bigint[]): bigint {
 export interface CircuitInputs {
   score: number;
   threshold: number;
-  timestamp: number;
+  timestamp: number; // unix seconds the result was verified
+  now: number; // unix seconds the proof is made at; a public input, so prover and verifier share it
   agentIdHash: bigint;
+  subject?: Omit<PredicateSubject, 'score'>; // rest of the committed result; the score alone when omitted
+  blinding?: bigint[]; // commitment randomness; fresh when omitted
+  validityDays?: number; // DEFAULT_VALIDITY_DAYS when omitted
+  verificationId?: string; // bound into the proof's public inputs when set
 }
 
 export interface CircuitOutputs {
   meetsThreshold: boolean;
-  commitment: bigint;
+  commitment: string;
+  blinding: bigint[]; // opens the commitment together with the inputs
   constraintsSatisfied: boolean;
 }
 
-export function evaluateCircuit(inputs: CircuitInputs): CircuitOutputs {
-  const scoreBig = BigInt(inputs.score);
-  const thresholdBig = BigInt(inputs.threshold);
-  const timestampBig = BigInt(inputs.timestamp);
+// The inputs don't make a provable statement: not satisfied, expired or malformed
+export class StatementError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StatementError';
+  }
+}
+
+const BLINDING_SIZE = 4; // ~124 bits; with up to 30 checks the record fits one permutation
+
+const MAX_SCORE = 125; // 100 + 25 bonus
+
+export const DEFAULT_VALIDITY_DAYS = 30;
+const DAY_SECONDS = 24 * 60 * 60;
+
+// Unix seconds a proof over a result verified at `timestamp` stops being valid
+export function validUntil(timestamp: number, validityDays: number = DEFAULT_VALIDITY_DAYS): number {
+  return timestamp + Math.round(validityDays * DAY_SECONDS);
+}
 
+// The result was verified by `at` and hadn't expired yet
+function isLive(timestamp: number, at: number, expiry: number): boolean {
+  return Number.isInteger(at) && timestamp <= at && at < expiry;
+}
+
+export function evaluateCircuit(inputs: CircuitInputs): CircuitOutputs {
   // Constraint 1: Score in valid range [0, 100]
-  const rangeValid = inputs.score >= 0 && inputs.score <= 125; // 100 + 25 bonus
+  const rangeValid = inputs.score >= 0 && inputs.score <= MAX_SCORE;
 
   // Constraint 2: Score >= threshold
   const meetsThreshold = inputs.score >= inputs.threshold;
 
-  // Constraint 3: Timestamp not expired (30 days)
-  const now = Math.floor(Date.now() / 1000);
-  const thirtyDays = 30 * 24 * 60 * 60;
-  const notExpired = now - inputs.timestamp < thirtyDays;
+  // Constraint 3: Timestamp not expired at the proving time
+  const notExpired = isLive(inputs.timestamp, inputs.now, validUntil(inputs.timestamp, inputs.validityDays));
 
-  // Generate commitment (hides actual score)
-  const commitment = poseidonHash([
-    inputs.agentIdHash,
-    scoreBig,
-    thresholdBig,
-    timestampBig
-  ]);
+  // Generate commitment (hides actual score); without the blinding the
+  // 126 possible scores could simply be tried one by one. It is the
+  // commitment a proof over these inputs publishes.
+  const blinding = blindingElements(inputs.blinding);
+  const commitment = commitResult(resultRecord(thresholdSubject(inputs), blinding));
 
   return {
     meetsThreshold: meetsThreshold && rangeValid && notExpired,
     commitment,
+    blinding: blinding.map(BigInt),
     constraintsSatisfied: rangeValid && notExpired
   };
 }
 
 /**
- * Generate execution trace for STARK proof
+ * Algebraic description of a computation: a trace of `width` columns and
+ * `length` rows is valid when every constraint vanishes on its rows. Fixed
+ * columns (row selectors, round constants) are public; the verifier rebuilds
+ * them from the statement.
+ */
+export interface AirConstraint {
+  // 'every' row, each 'transition' (all rows but the last), or one row index
+  rows: 'every' | 'transition' | number;
+  evaluate(current: QM31[], next: QM31[], fixed: QM31[]): QM31;
+}
+
+export interface Air {
+  width: number;
+  length: number;
+  fixed: number[][];
+  constraints: AirConstraint[];
+}
+
+const TRACE_LENGTH = 32; // minimum; results with more checks take more rows
+
+// Bits per range check. 2^30 plus any bound stays below p, so a negative
+// difference (p - k) never has a 30-bit decomposition
+const RANGE_BITS = 30;
+
+/**
+ * The verification result a proof is about, committed with Poseidon2: score,
+ * tier, trace count and the pass bits of every check (in name order, 30 to
+ * an element), then the blinding. The check names are public; the values
+ * are not. The agent and verification time are public inputs of every proof.
+ */
+export interface ResultCommitment {
+  checks: string[]; // names of the committed checks, in order
+  digest: number[]; // poseidon2Hash of the record
+}
+
+const RESULT_FIELDS = ['score', 'tier', 'traceCount'];
+const CHECKS_PER_ELEMENT = 30;
+
+export function committedChecks(subject: PredicateSubject): string[] {
+  return Object.keys(subject.checks).sort();
+}
+
+// Record keys in commitment order: the fields, 'checks:<n>', then 'blinding:<n>'
+function recordKeys(checks: string[]): string[] {
+  return [
+    ...RESULT_FIELDS,
+    ...Array.from({ length: Math.ceil(checks.length / CHECKS_PER_ELEMENT) }, (_, i) => `checks:${i}`),
+    ...Array.from({ length: BLINDING_SIZE }, (_, i) => `blinding:${i}`)
+  ];
+}
+
+/**
+ * The committed record for a result; commitResult() of it is the
+ * commitment a proof over the result carries
+ */
+export function resultRecord(subject: PredicateSubject, blinding: number[]): number[] {
+  const checks = committedChecks(subject);
+  const passed = new Array(Math.ceil(checks.length / CHECKS_PER_ELEMENT)).fill(0);
+  checks.forEach((name, i) => {
+    if (subject.checks[name]) passed[Math.floor(i / CHECKS_PER_ELEMENT)] += 2 ** (i % CHECKS_PER_ELEMENT);
+  });
+
+  return [...RESULT_FIELDS.map(key => subjectValue(key, subject)), ...passed, ...blinding];
+}
+
+export function commitResult(record: number[]): string {
+  return digestToHex(poseidon2Hash(record));
+}
+
+// The given blinding reduced into the field, or fresh randomness
+function blindingElements(blinding?: bigint[]): number[] {
+  if (blinding && blinding.length !== BLINDING_SIZE) {
+    throw new StatementError(`Blinding must be ${BLINDING_SIZE} field elements`);
+  }
+  return blinding ? blinding.map(b => Number(M31.mod(b))) : randomElements(BLINDING_SIZE);
+}
+
+// Rows per permutation: its input, after the first linear layer, after each round
+const BLOCK_ROWS = POSEIDON2_ROUNDS + 2;
+
+// Fixed columns: round constants per lane, then row selectors
+const FIXED_INIT = POSEIDON2_WIDTH; // initial linear layer
+const FIXED_FULL = POSEIDON2_WIDTH + 1;
+const FIXED_PARTIAL = POSEIDON2_WIDTH + 2;
+const FIXED_BITS = POSEIDON2_WIDTH + 3; // rows holding range-check bits
+const FIXED_ABSORB = POSEIDON2_WIDTH + 4; // one per permutation after the first
+
+interface PredicateLayout {
+  terms: PredicateTerms;
+  record: string[]; // record keys, the first columns
+  values: string[]; // record keys, then predicate keys outside the record
+  blocks: number; // sponge permutations
+  length: number;
+  state: number; // first sponge state column; squares and fourth powers follow
+  bits: number; // first bit decomposition column: the bounds, then the masks
+  passed: number[]; // committed index of each check the predicate needs passed
+  masks: number[]; // pass-mask elements holding them
+}
+
+function predicateLayout(predicate: Predicate, checks: string[]): PredicateLayout {
+  const terms = compilePredicate(predicate);
+  const record = recordKeys(checks);
+  const values = [...record, ...terms.keys.filter(key => !record.includes(key))];
+  const blocks = Math.ceil(record.length / POSEIDON2_RATE);
+  const passed = terms.passed.map(name => {
+    const index = checks.indexOf(name);
+    if (index < 0) {
+      throw new StatementError(`Check not in the committed result: ${name}`);
+    }
+    return index;
+  });
+  return {
+    terms,
+    record,
+    values,
+    blocks,
+    passed,
+    masks: [...new Set(passed.map(index => Math.floor(index / CHECKS_PER_ELEMENT)))],
+    length: Math.max(TRACE_LENGTH, 2 ** Math.ceil(Math.log2(blocks * BLOCK_ROWS))),
+    state: values.length,
+    bits: values.length + 3 * POSEIDON2_WIDTH
+  };
+}
+
+function fixedColumns({ blocks, length }: PredicateLayout): number[][] {
+  const columns = Array.from({ length: FIXED_ABSORB + blocks - 1 }, () => new Array(length).fill(0));
+  for (let block = 0; block < blocks; block++) {
+    const start = block * BLOCK_ROWS;
+    columns[FIXED_INIT][start] = 1;
+    for (let round = 0; round < POSEIDON2_ROUNDS; round++) {
+      const row = start + 1 + round;
+      roundConstants(round).forEach((constant, lane) => { columns[lane][row] = constant; });
+      columns[isFullRound(round) ? FIXED_FULL : FIXED_PARTIAL][row] = 1;
+    }
+    if (block > 0) {
+      columns[FIXED_ABSORB + block - 1][start - 1] = 1;
+    }
+  }
+  for (let row = length - RANGE_BITS; row < length; row++) {
+    columns[FIXED_BITS][row] = 1;
+  }
+  return columns;
+}
+
+/**
+ * One column per record value and per predicate value outside the record,
+ * constant down the column. The Poseidon2 sponge over the record runs down
+ * the state columns, one row per round, and must end at the public
+ * commitment, so the values the predicate is checked on are the committed
+ * ones. S-box inputs are squared and raised to the fourth power in their own
+ * columns to keep every constraint quadratic.
+ *
+ * Each bound proves value - bound >= 0 (or bound - value) by decomposing the
+ * difference into bits, most significant first: a bit column and an
+ * accumulator with acc' = 2 * acc + bit', whose last row must equal the
+ * difference. Pass masks that hold a check in passed() are decomposed the
+ * same way, and the check's bit must be 1.
+ */
+export function buildPredicateAir(predicate: Predicate, result: ResultCommitment): Air {
+  const layout = predicateLayout(predicate, result.checks);
+  const { terms, record, values, blocks, length, state } = layout;
+  const squares = state + POSEIDON2_WIDTH;
+  const fourths = squares + POSEIDON2_WIDTH;
+  const column = (key: string) => values.indexOf(key);
+
+  const constraints: AirConstraint[] = values.map((_, c) => ({
+    rows: 'transition' as const,
+    evaluate: (current: QM31[], next: QM31[]) => Q.sub(next[c], current[c])
+  }));
+
+  // The sponge starts with the first record values, the record length in the capacity
+  for (let lane = 0; lane < POSEIDON2_WIDTH; lane++) {
+    const initial = (current: QM31[]) => lane < Math.min(POSEIDON2_RATE, record.length)
+      ? current[lane]
+      : Q.from(lane === POSEIDON2_RATE ? record.length : 0);
+    constraints.push({ rows: 0, evaluate: current => Q.sub(current[state + lane], initial(current)) });
+  }
+
+  for (let lane = 0; lane < POSEIDON2_WIDTH; lane++) {
+    constraints.push(
+      {
+        rows: 'every',
+        evaluate: (current, _next, fixed) => {
+          const input = Q.add(current[state + lane], fixed[lane]);
+          return Q.sub(current[squares + lane], Q.mul(input, input));
+        }
+      },
+      {
+        rows: 'every',
+        evaluate: current => Q.sub(current[fourths + lane], Q.mul(current[squares + lane], current[squares + lane]))
+      }
+    );
+  }
+
+  // The next state by row kind: initial linear layer, full or partial round,
+  // or absorbing the next record values. Lanes share the linear layers, so
+  // they are worked out once per row.
+  const nextStates = (current: QM31[], fixed: QM31[]): QM31[] => {
+    const lanes = current.slice(state, squares);
+    const sboxed = lanes.map((x, lane) => Q.mul(current[fourths + lane], Q.add(x, fixed[lane])));
+    const init = externalLayerQM31(lanes);
+    const full = externalLayerQM31(sboxed);
+    const partial = internalLayerQM31([sboxed[0], ...lanes.slice(1)]);
+
+    return lanes.map((x, lane) => {
+      let sum = Q.add(
+        Q.add(Q.mul(fixed[FIXED_INIT], init[lane]), Q.mul(fixed[FIXED_FULL], full[lane])),
+        Q.mul(fixed[FIXED_PARTIAL], partial[lane])
+      );
+      for (let block = 1; block < blocks; block++) {
+        const index = block * POSEIDON2_RATE + lane;
+        const absorbed = lane < POSEIDON2_RATE && index < record.length ? Q.add(x, current[index]) : x;
+        sum = Q.add(sum, Q.mul(fixed[FIXED_ABSORB + block - 1], absorbed));
+      }
+      return sum;
+    });
+  };
+  let frame: QM31[] | undefined;
+  let targets: QM31[] = [];
+  const active = (fixed: QM31[]) => [FIXED_INIT, FIXED_FULL, FIXED_PARTIAL, ...range(FIXED_ABSORB, blocks - 1)]
+    .reduce((sum, c) => Q.add(sum, fixed[c]), Q.ZERO);
+
+  for (let lane = 0; lane < POSEIDON2_WIDTH; lane++) {
+    constraints.push({
+      rows: 'transition',
+      evaluate: (current, next, fixed) => {
+        if (current !== frame) {
+          frame = current;
+          targets = nextStates(current, fixed);
+        }
+        return Q.sub(Q.mul(active(fixed), next[state + lane]), targets[lane]);
+      }
+    });
+  }
+
+  // The last permutation's output is the commitment
+  const output = blocks * BLOCK_ROWS - 1;
+  result.digest.forEach((value, lane) => {
+    constraints.push({ rows: output, evaluate: current => Q.sub(current[state + lane], Q.from(value)) });
+  });
+
+  terms.equalities.forEach(({ key, value }) => {
+    const c = column(key);
+    constraints.push({ rows: 0, evaluate: current => Q.sub(current[c], Q.from(value)) });
+  });
+
+  // Values decomposed into RANGE_BITS bits: the bound differences, then the pass masks
+  const decomposed = [
+    ...terms.bounds.map(({ key, op, bound }) => {
+      const c = column(key);
+      return (current: QM31[]) => op === '>='
+        ? Q.sub(current[c], Q.from(bound))
+        : Q.sub(Q.from(bound), current[c]);
+    }),
+    ...layout.masks.map(mask => {
+      const c = column(`checks:${mask}`);
+      return (current: QM31[]) => current[c];
+    })
+  ];
+
+  decomposed.forEach((diff, i) => {
+    const bit = layout.bits + 2 * i;
+    const acc = bit + 1;
+
+    constraints.push(
+      { rows: 'every', evaluate: current => Q.mul(current[bit], Q.sub(current[bit], Q.ONE)) },
+      // Rows above the top bit hold zeros
+      { rows: 'every', evaluate: (current, _next, fixed) => Q.mul(Q.sub(Q.ONE, fixed[FIXED_BITS]), current[bit]) },
+      { rows: 0, evaluate: current => Q.sub(current[acc], current[bit]) },
+      {
+        rows: 'transition',
+        evaluate: (current, next) => Q.sub(next[acc], Q.add(Q.add(current[acc], current[acc]), next[bit]))
+      },
+      { rows: length - 1, evaluate: current => Q.sub(current[acc], diff(current)) }
+    );
+  });
+
+  // Check i is bit i % 30 of its mask, i % 30 rows above the last. A mask has
+  // CHECKS_PER_ELEMENT = RANGE_BITS bits, so its decomposition is unique.
+  layout.passed.forEach(index => {
+    const mask = layout.masks.indexOf(Math.floor(index / CHECKS_PER_ELEMENT));
+    const bit = layout.bits + 2 * (terms.bounds.length + mask);
+    const row = length - 1 - (index % CHECKS_PER_ELEMENT);
+    constraints.push({ rows: row, evaluate: current => Q.sub(current[bit], Q.ONE) });
+  });
+
+  return { width: layout.bits + 2 * decomposed.length, length, fixed: fixedColumns(layout), constraints };
+}
+
+function range(start: number, count: number): number[] {
+  return Array.from({ length: count }, (_, i) => start + i);
+}
+
+/**
+ * Trace columns for a predicate over a committed result (see
+ * resultRecord()). This is the private witness; it never leaves the prover.
+ */
+export function generatePredicateTrace(predicate: Predicate, subject: PredicateSubject, record: number[]): number[][] {
+  const layout = predicateLayout(predicate, committedChecks(subject));
+  const { terms, values, blocks, length } = layout;
+  const row = values.map((key, c) => c < record.length ? record[c] : subjectValue(key, subject));
+  const columns = row.map(value => new Array(length).fill(value));
+
+  // Sponge states, BLOCK_ROWS per permutation; the rows after the last repeat its output
+  const states: number[][] = [];
+  let sponge = new Array(POSEIDON2_WIDTH).fill(0);
+  sponge[POSEIDON2_RATE] = record.length;
+  for (let block = 0; block < blocks; block++) {
+    for (let lane = 0; lane < POSEIDON2_RATE && block * POSEIDON2_RATE + lane < record.length; lane++) {
+      sponge[lane] = mAdd(sponge[lane], record[block * POSEIDON2_RATE + lane]);
+    }
+    states.push(sponge);
+    sponge = poseidon2Permute(sponge, states);
+  }
+  while (states.length < length) {
+    states.push(sponge);
+  }
+
+  const fixed = fixedColumns(layout);
+  const lanes = range(0, POSEIDON2_WIDTH);
+  const inputs = lanes.map(lane => states.map((s, r) => mAdd(s[lane], fixed[lane][r])));
+  const squares = inputs.map(column => column.map(x => mMul(x, x)));
+  columns.push(
+    ...lanes.map(lane => states.map(s => s[lane])),
+    ...squares,
+    ...squares.map(column => column.map(x => mMul(x, x)))
+  );
+
+  const decomposed = [
+    ...terms.bounds.map(({ key, op, bound }) => {
+      const value = row[values.indexOf(key)];
+      return op === '>=' ? value - bound : bound - value;
+    }),
+    ...layout.masks.map(mask => row[values.indexOf(`checks:${mask}`)])
+  ];
+  for (const diff of decomposed) {
+    const bits: number[] = [];
+    const accs: number[] = [];
+    for (let r = 0; r < length; r++) {
+      const acc = Math.floor(diff / 2 ** (length - 1 - r));
+      bits.push(acc % 2);
+      accs.push(acc);
+    }
+    columns.push(bits, accs);
+  }
+
+  return columns;
+}
+
+// score in [threshold, MAX_SCORE]
+function thresholdPredicate(threshold: number): Predicate {
+  return [{ field: 'score', min: threshold, max: MAX_SCORE }];
+}
+
+function thresholdSubject(inputs: CircuitInputs): PredicateSubject {
+  return { checks: {}, ...inputs.subject, score: inputs.score };
+}
+
+/**
+ * Generate execution trace for STARK proof (threshold circuit, one row per state)
  */
 export interface ExecutionTrace {
   states: bigint[][];
@@ -132,47 +506,10 @@ export interface ExecutionTrace {
 }
 
 export function generateExecutionTrace(inputs: CircuitInputs): ExecutionTrace {
-  const states: bigint[][] = [];
-  
-  // Initial state
-  states.push([
-    BigInt(inputs.score),
-    BigInt(inputs.threshold),
-    inputs.agentIdHash,
-    BigInt(inputs.timestamp)
-  ]);
-
-  // Step 1: Range check
-  const rangeCheckResult = inputs.score >= 0 && inputs.score <= 125 ? 1n : 0n;
-  states.push([
-    BigInt(inputs.score),
-    rangeCheckResult,
-    inputs.agentIdHash,
-    BigInt(inputs.timestamp)
-  ]);
-
-  // Step 2: Threshold comparison
-  const thresholdResult = inputs.score >= inputs.threshold ? 1n : 0n;
-  states.push([
-    BigInt(inputs.score),
-    thresholdResult,
-    inputs.agentIdHash,
-    BigInt(inputs.timestamp)
-  ]);
-
-  // Step 3: Commitment
-  const commitment = poseidonHash([
-    inputs.agentIdHash,
-    BigInt(inputs.score),
-    BigInt(inputs.threshold),
-    BigInt(inputs.timestamp)
-  ]);
-  states.push([
-    commitment,
-    thresholdResult,
-    inputs.agentIdHash,
-    BigInt(inputs.timestamp)
-  ]);
+  const subject = thresholdSubject(inputs);
+  const record = resultRecord(subject, blindingElements(inputs.blinding));
+  const columns = generatePredicateTrace(thresholdPredicate(inputs.threshold), subject, record);
+  const states = columns[0].map((_, row) => columns.map(column => BigInt(column[row])));
 
   return {
     states,
@@ -180,84 +517,437 @@ export function generateExecutionTrace(inputs: CircuitInputs): ExecutionTrace {
   };
 }
 
-/**
- * Generate STARK proof (simplified)
- * In production, use a real STARK prover like STWO
- */
+export interface StarkProofData {
+  traceRoot: string;
+  compositionRoot: string; // rows of [composition, FRI randomizer]
+  // Out-of-domain evaluations at z and g * z
+  ood: {
+    trace: QM31[];
+    traceNext: QM31[];
+    composition: QM31;
+  };
+  // Openings at each FRI query position x and its negation -x
+  queries: Array<{
+    trace: MerkleOpening[];
+    composition: MerkleOpening[];
+  }>;
+  fri: FriProof;
+}
+
+export interface StarkPublicInputs {
+  predicate: string; // canonical text form
+  threshold?: number; // set on plain score threshold proofs
+  commitment: string; // the committed result (see ResultCommitment), hex digest
+  checks: string[]; // names of the committed checks, in order
+  agentIdHash: string;
+  timestampVerified: number;
+  provedAt: number; // unix seconds; the result was live then
+  validUntil: number; // unix seconds
+  verificationId?: string;
+}
+
 export interface StarkProof {
-  commitment: string;
-  trace: string;
+  commitment: string; // publicInputs.commitment, the blinded result commitment evaluateCircuit() returns
   proofHash: string;
-  publicInputs: {
-    threshold: number;
-    agentIdHash: string;
-    timestampVerified: number;
-  };
+  publicInputs: StarkPublicInputs;
+  stark: StarkProofData;
   metadata: {
     prover: string;
     field: string;
+    hash: string; // versioned id of the hash behind commitments and challenges
     security: number;
   };
 }
 
-export function generateStarkProof(inputs: CircuitInputs): StarkProof {
-  const trace = generateExecutionTrace(inputs);
-  const result = evaluateCircuit(inputs);
+const PROVER_ID = 'poa-stark-v2';
+const FRI_BLOWUP = 16; // evaluation domain size / FRI degree bound
+const FRI_QUERIES = 22;
+const FRI_FINAL_DEGREE = 8;
+
+// Each query opens the trace at x and -x, and the composition opened there
+// depends on g * x and -g * x too; with z and g * z that is at most
+// 4 * queries + 2 evaluations per column. Masks with more random coefficients
+// than that leave every opened value uniformly random.
+const MASK_DEGREE = 4 * FRI_QUERIES + 2;
+
+// Each query contributes log2(FRI_BLOWUP) bits (conjectured)
+const SECURITY_BITS = FRI_QUERIES * log2(FRI_BLOWUP);
 
-  if (!result.constraintsSatisfied) {
-    throw new Error('Circuit constraints not satisfied');
+interface Dimensions {
+  degree: number; // FRI degree bound, above the composition's degree
+  size: number; // evaluation domain size
+  step: number; // g * x_j is x_{j + step} on the evaluation domain
+}
+
+function dimensions(air: Air): Dimensions {
+  // Masked trace polynomials have degree < length + MASK_DEGREE, and the
+  // quotient of degree-2 constraints stays below twice that
+  const degree = 2 ** Math.ceil(Math.log2(2 * (air.length + MASK_DEGREE)));
+  const size = degree * FRI_BLOWUP;
+  return { degree, size, step: size / air.length };
+}
+
+// T(x) + Z_H(x) * R(x) with random R agrees with T on every row
+function maskTrace(coeffs: QM31[], length: number): QM31[] {
+  const masked = [...coeffs, ...new Array(MASK_DEGREE).fill(Q.ZERO)];
+  for (let j = 0; j < MASK_DEGREE; j++) {
+    const r = Q.random();
+    masked[j + length] = Q.add(masked[j + length], r);
+    masked[j] = Q.sub(masked[j], r);
   }
+  return masked;
+}
+
+interface Divisors {
+  every: QM31;
+  transition: QM31;
+  row(index: number): QM31;
+}
 
-  // Generate proof hash (in production, this would be the actual STARK proof)
-  const proofHash = poseidonHash([
-    result.commitment,
-    BigInt(trace.length),
-    BigInt(Date.now())
-  ]);
+// Inverses of the vanishing polynomials at x, for a trace of `length` rows
+function divisorInverses(x: QM31, length: number): Divisors | null {
+  const g = Q.fromC(rootOfUnity(log2(length)));
+  const vanishing = Q.sub(Q.pow(x, length), Q.ONE); // zero on every row
+  const lastRow = Q.sub(x, Q.pow(g, length - 1));
+  if (Q.eq(vanishing, Q.ZERO)) {
+    return null;
+  }
 
+  const everyInv = Q.inv(vanishing);
   return {
-    commitment: result.commitment.toString(16),
-    trace: trace.states.map(s => s.map(v => v.toString(16)).join(',')).join(';'),
-    proofHash: proofHash.toString(16),
-    publicInputs: {
-      threshold: inputs.threshold,
-      agentIdHash: inputs.agentIdHash.toString(16),
-      timestampVerified: inputs.timestamp
-    },
+    every: everyInv,
+    transition: Q.mul(everyInv, lastRow),
+    row: index => Q.inv(Q.sub(x, Q.pow(g, index)))
+  };
+}
+
+function composeConstraints(
+  air: Air,
+  alphas: QM31[],
+  current: QM31[],
+  next: QM31[],
+  fixed: QM31[],
+  divisors: Divisors
+): QM31 {
+  // Constraints sharing rows share a divisor, applied once to their sum
+  const groups = new Map<AirConstraint['rows'], QM31>();
+  air.constraints.forEach((constraint, k) => {
+    const term = Q.mul(alphas[k], constraint.evaluate(current, next, fixed));
+    groups.set(constraint.rows, Q.add(groups.get(constraint.rows) ?? Q.ZERO, term));
+  });
+
+  let sum = Q.ZERO;
+  groups.forEach((value, rows) => {
+    const divisor = rows === 'every'
+      ? divisors.every
+      : rows === 'transition'
+        ? divisors.transition
+        : divisors.row(rows);
+    sum = Q.add(sum, Q.mul(value, divisor));
+  });
+  return sum;
+}
+
+function fixedPolynomials(air: Air): QM31[][] {
+  return air.fixed.map(column => interpolate(column.map(Q.from)));
+}
+
+// DEEP quotients of every committed polynomial at the out-of-domain points,
+// plus the randomizer that keeps FRI's layers from leaking anything
+function deepComposition(
+  gammas: QM31[],
+  trace: QM31[],
+  [composition, randomizer]: QM31[],
+  ood: StarkProofData['ood'],
+  x: QM31,
+  z: QM31,
+  gz: QM31
+): QM31 {
+  const invZ = Q.inv(Q.sub(x, z));
+  const invGz = Q.inv(Q.sub(x, gz));
+  let sum = Q.add(
+    Q.mul(gammas[0], Q.mul(Q.sub(composition, ood.composition), invZ)),
+    Q.mul(gammas[gammas.length - 1], randomizer)
+  );
+  trace.forEach((value, c) => {
+    sum = Q.add(sum, Q.mul(gammas[1 + 2 * c], Q.mul(Q.sub(value, ood.trace[c]), invZ)));
+    sum = Q.add(sum, Q.mul(gammas[2 + 2 * c], Q.mul(Q.sub(value, ood.traceNext[c]), invGz)));
+  });
+  return sum;
+}
+
+function challenges(transcript: Transcript, count: number): QM31[] {
+  return Array.from({ length: count }, () => transcript.challenge());
+}
+
+/**
+ * Prove that `columns` (one array per trace column) satisfy the AIR
+ */
+export function proveAir(air: Air, columns: number[][], transcript: Transcript): StarkProofData {
+  const { degree, size, step } = dimensions(air);
+  const points = domainPoints(size, DOMAIN_SHIFT).map(Q.fromC);
+
+  const traceCoeffs = columns.map(column => maskTrace(interpolate(column.map(Q.from)), air.length));
+  const traceLde = traceCoeffs.map(coeffs => evaluateOnDomain(coeffs, size, DOMAIN_SHIFT));
+  const traceRows = points.map((_, j) => traceLde.map(column => column[j]));
+  const traceTree = new VectorCommitment(traceRows, true);
+  transcript.absorb(traceTree.root);
+
+  const fixedLde = fixedPolynomials(air).map(coeffs => evaluateOnDomain(coeffs, size, DOMAIN_SHIFT));
+  const alphas = challenges(transcript, air.constraints.length);
+  const composition = points.map((x, j) => composeConstraints(
+    air,
+    alphas,
+    traceRows[j],
+    traceRows[(j + step) % size],
+    fixedLde.map(column => column[j]),
+    divisorInverses(x, air.length)!
+  ));
+  const compositionCoeffs = interpolate(composition, DOMAIN_SHIFT);
+  if (degreeBound(compositionCoeffs) > degree) {
+    throw new Error('Execution trace does not satisfy the circuit constraints');
+  }
+  const randomizer = evaluateOnDomain(Array.from({ length: degree }, Q.random), size, DOMAIN_SHIFT);
+  const compositionTree = new VectorCommitment(composition.map((value, j) => [value, randomizer[j]]), true);
+  transcript.absorb(compositionTree.root);
+
+  const z = transcript.challenge();
+  const gz = Q.mul(z, Q.fromC(rootOfUnity(log2(air.length))));
+  const ood = {
+    trace: traceCoeffs.map(coeffs => evaluateAt(coeffs, z)),
+    traceNext: traceCoeffs.map(coeffs => evaluateAt(coeffs, gz)),
+    composition: evaluateAt(compositionCoeffs, z)
+  };
+  transcript.absorbField([...ood.trace, ...ood.traceNext, ood.composition]);
+
+  const gammas = challenges(transcript, 2 + 2 * air.width);
+  const deep = points.map((x, j) =>
+    deepComposition(gammas, traceRows[j], [composition[j], randomizer[j]], ood, x, z, gz)
+  );
+
+  const { proof: fri, positions } = proveFri(transcript, deep, DOMAIN_SHIFT, degree, {
+    queries: FRI_QUERIES,
+    finalDegree: FRI_FINAL_DEGREE
+  });
+
+  const queries = positions.map(position => {
+    const pair = [position, position + size / 2];
+    return {
+      trace: pair.map(index => traceTree.open(index)),
+      composition: pair.map(index => compositionTree.open(index))
+    };
+  });
+
+  return {
+    traceRoot: traceTree.root,
+    compositionRoot: compositionTree.root,
+    ood,
+    queries,
+    fri
+  };
+}
+
+/**
+ * Check a proof against the AIR; the transcript must have absorbed the same
+ * public inputs as the prover's
+ */
+export function verifyAir(air: Air, proof: StarkProofData, transcript: Transcript): boolean {
+  const { degree, size } = dimensions(air);
+  const { ood } = proof;
+
+  if (typeof proof.traceRoot !== 'string' || typeof proof.compositionRoot !== 'string') return false;
+  if (!Array.isArray(ood?.trace) || ood.trace.length !== air.width || !ood.trace.every(Q.isValid)) return false;
+  if (!Array.isArray(ood.traceNext) || ood.traceNext.length !== air.width || !ood.traceNext.every(Q.isValid)) return false;
+  if (!Q.isValid(ood.composition)) return false;
+  if (!Array.isArray(proof.queries) || proof.queries.length !== FRI_QUERIES) return false;
+
+  transcript.absorb(proof.traceRoot);
+  const alphas = challenges(transcript, air.constraints.length);
+  transcript.absorb(proof.compositionRoot);
+
+  // The committed composition must agree with the constraints at a random point
+  const z = transcript.challenge();
+  const gz = Q.mul(z, Q.fromC(rootOfUnity(log2(air.length))));
+  const divisors = divisorInverses(z, air.length);
+  const fixed = fixedPolynomials(air).map(coeffs => evaluateAt(coeffs, z));
+  if (!divisors || !Q.eq(composeConstraints(air, alphas, ood.trace, ood.traceNext, fixed, divisors), ood.composition)) {
+    return false;
+  }
+  transcript.absorbField([...ood.trace, ...ood.traceNext, ood.composition]);
+
+  const gammas = challenges(transcript, 2 + 2 * air.width);
+  const fri = verifyFri(transcript, proof.fri, size, DOMAIN_SHIFT, degree, {
+    queries: FRI_QUERIES,
+    finalDegree: FRI_FINAL_DEGREE
+  });
+  if (!fri.valid) return false;
+
+  // FRI's first layer must be the DEEP composition of the committed trace
+  const points = domainPoints(size, DOMAIN_SHIFT);
+  return fri.positions!.every((position, q) => {
+    const query = proof.queries[q];
+    if (!Array.isArray(query?.trace) || !Array.isArray(query.composition)) return false;
+
+    return [position, position + size / 2].every((index, side) => {
+      const trace = query.trace[side];
+      const composition = query.composition[side];
+      if (!verifyOpening(proof.traceRoot, index, trace, air.width, size, true)) return false;
+      if (!verifyOpening(proof.compositionRoot, index, composition, 2, size, true)) return false;
+
+      const x = Q.fromC(points[index]);
+      const expected = deepComposition(gammas, trace.values, composition.values, ood, x, z, gz);
+      return Q.eq(expected, fri.firstLayer![q][side]);
+    });
+  });
+}
+
+function statementTranscript(publicInputs: StarkPublicInputs): Transcript {
+  const transcript = new Transcript(`${PROVER_ID}/${POSEIDON2_ID}`);
+  transcript.absorb(canonicalize(publicInputs));
+  return transcript;
+}
+
+// The committed result as the verifier sees it; throws on malformed inputs
+function statementResult({ checks, commitment }: StarkPublicInputs): ResultCommitment {
+  const digest = typeof commitment === 'string' ? hexToDigest(commitment) : null;
+  if (!digest) {
+    throw new Error('Invalid commitment');
+  }
+  // Strictly ascending, as committedChecks() lists them
+  if (!Array.isArray(checks) || !checks.every((name, i) => typeof name === 'string' && (i === 0 || checks[i - 1] < name))) {
+    throw new Error('Invalid checks');
+  }
+  return { checks, digest };
+}
+
+function proveStatement(
+  predicate: Predicate,
+  subject: PredicateSubject,
+  record: number[],
+  publicInputs: StarkPublicInputs
+): StarkProof {
+  const transcript = statementTranscript(publicInputs);
+  const air = buildPredicateAir(predicate, statementResult(publicInputs));
+  const stark = proveAir(air, generatePredicateTrace(predicate, subject, record), transcript);
+
+  return {
+    commitment: publicInputs.commitment,
+    // The final transcript state binds the public inputs and every commitment
+    proofHash: transcript.digest(),
+    publicInputs,
+    stark,
     metadata: {
-      prover: 'moltlaunch-stark-v1-DEPRECATED',
+      prover: PROVER_ID,
       field: 'M31',
-      security: 0
+      hash: POSEIDON2_ID,
+      security: SECURITY_BITS
     }
   };
 }
 
+export function generateStarkProof(inputs: CircuitInputs): StarkProof {
+  const result = evaluateCircuit(inputs);
+
+  if (!result.constraintsSatisfied || !Number.isInteger(inputs.score)) {
+    throw new StatementError('Circuit constraints not satisfied');
+  }
+  // A sound proof of a false statement doesn't exist
+  if (!result.meetsThreshold) {
+    throw new StatementError('Score does not meet threshold');
+  }
+
+  const predicate = thresholdPredicate(inputs.threshold);
+  const subject = thresholdSubject(inputs);
+  const record = resultRecord(subject, result.blinding.map(Number));
+  return proveStatement(predicate, subject, record, {
+    predicate: formatPredicate(predicate),
+    threshold: inputs.threshold,
+    commitment: commitResult(record),
+    checks: committedChecks(subject),
+    agentIdHash: inputs.agentIdHash.toString(16),
+    timestampVerified: inputs.timestamp,
+    provedAt: inputs.now,
+    validUntil: validUntil(inputs.timestamp, inputs.validityDays),
+    verificationId: inputs.verificationId
+  });
+}
+
+export interface PredicateInputs {
+  predicate: Predicate | string;
+  subject: PredicateSubject;
+  timestamp: number;
+  now: number; // unix seconds, as CircuitInputs.now
+  agentIdHash: bigint;
+  blinding?: bigint[]; // as CircuitInputs.blinding
+  validityDays?: number;
+  verificationId?: string;
+}
+
+/**
+ * Prove that a verification result satisfies a predicate, revealing only the
+ * predicate. Throws a StatementError when the result doesn't satisfy it.
+ */
+export function generatePredicateProof(inputs: PredicateInputs): StarkProof {
+  let predicate: Predicate;
+  try {
+    predicate = parsePredicate(inputs.predicate);
+  } catch (error: any) {
+    throw new StatementError(error.message);
+  }
+  if (!evaluatePredicate(predicate, inputs.subject)) {
+    throw new StatementError('Predicate not satisfied');
+  }
+  const expiry = validUntil(inputs.timestamp, inputs.validityDays);
+  if (!isLive(inputs.timestamp, inputs.now, expiry)) {
+    throw new StatementError('Verification result has expired');
+  }
+
+  const record = resultRecord(inputs.subject, blindingElements(inputs.blinding));
+  return proveStatement(predicate, inputs.subject, record, {
+    predicate: formatPredicate(predicate),
+    commitment: commitResult(record),
+    checks: committedChecks(inputs.subject),
+    agentIdHash: inputs.agentIdHash.toString(16),
+    timestampVerified: inputs.timestamp,
+    provedAt: inputs.now,
+    validUntil: expiry,
+    verificationId: inputs.verificationId
+  });
+}
+
 /**
  * Verify STARK proof
  */
 export function verifyStarkProof(proof: StarkProof): boolean {
   try {
-    // Verify proof hash is valid
-    const commitment = BigInt('0x' + proof.commitment);
-    const traceLength = proof.trace.split(';').length;
-    
-    // Recompute proof hash
-    const expectedHash = poseidonHash([
-      commitment,
-      BigInt(traceLength),
-      // Note: timestamp not available in verification, so this is simplified
-      BigInt(0)
-    ]);
-
-    // In production, would verify full STARK proof
-    // For now, check structure is valid
-    return (
-      proof.commitment.length > 0 &&
-      proof.trace.length > 0 &&
-      proof.proofHash.length > 0 &&
-      proof.publicInputs.threshold >= 0 &&
-      proof.publicInputs.threshold <= 100
-    );
+    const { publicInputs, stark } = proof;
+    if (proof.metadata?.hash !== POSEIDON2_ID || proof.commitment !== publicInputs.commitment) {
+      return false;
+    }
+
+    // Only the canonical form, so one statement has one transcript
+    const predicate = parsePredicate(publicInputs.predicate);
+    if (formatPredicate(predicate) !== publicInputs.predicate) {
+      return false;
+    }
+    if (publicInputs.threshold !== undefined &&
+        (!Number.isInteger(publicInputs.threshold) ||
+         publicInputs.threshold < 0 ||
+         publicInputs.threshold > MAX_SCORE ||
+         publicInputs.predicate !== formatPredicate(thresholdPredicate(publicInputs.threshold)))) {
+      return false;
+    }
+
+    // The proving time is public, so this is the same check the prover made.
+    // Expiry itself is checked by whoever relies on the proof, at their own clock.
+    if (!Number.isInteger(publicInputs.validUntil) ||
+        !isLive(publicInputs.timestampVerified, publicInputs.provedAt, publicInputs.validUntil)) {
+      return false;
+    }
+
+    const transcript = statementTranscript(publicInputs);
+    return verifyAir(buildPredicateAir(predicate, statementResult(publicInputs)), stark, transcript) &&
+      proof.proofHash === transcript.digest();
   } catch {
     return false;
   }
@@ -0,0 +1,475 @@
+/**
+ * Pluggable storage for verifications, traces, proofs, attestations and jobs
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { AttestationInclusion, AttestationInfo, BehavioralScore, VerificationLevel, VerificationTier } from './types';
+import { StoredTrace } from './traces';
+import { LatencyProfile } from './profiler';
+import { WebhookDelivery } from './webhooks';
+import { AgentSignals } from './scoring';
+import { StarkProof } from './stark';
+import { BatchEntry } from './attestation';
+
+// Verification record as kept by the server
+export interface VerificationRecord {
+  id: string;
+  agentName: string;
+  level?: VerificationLevel;
+  apiEndpoint?: string;
+  capabilities?: string[];
+  walletAddress?: string;
+  signals?: AgentSignals;
+  status: 'pending' | 'testing' | 'verified' | 'failed' | 'cancelled';
+  score: number;
+  baseScore?: number;
+  tier?: VerificationTier;
+  checks: Record<string, boolean>;
+  details?: Record<string, string>;
+  timings?: Record<string, number>;
+  attestation?: AttestationInfo;
+  behavioral?: BehavioralScore;
+  profile?: LatencyProfile;
+  attestationTx?: string;
+  credential?: string; // VC-JWT
+  callbackUrl?: string;
+  webhookDeliveries?: WebhookDelivery[];
+  createdAt: string;
+  completedAt?: string;
+  expiresAt?: string;
+  reverifiedFrom?: string;
+  reverificationId?: string;
+}
+
+// STARK proof as kept by the server
+export interface StoredProof {
+  proofHash: string;
+  agentId: string;
+  verificationId?: string;
+  proof: StarkProof;
+  // JWS from the issuer key: this proof's result commitment is to this verification's result
+  registration?: string;
+  createdAt: string;
+  expiresAt?: string;
+}
+
+// On-chain attestation as kept by the server
+export interface StoredAttestation {
+  signature: string;
+  agentId: string;
+  agentAddress?: string;
+  verificationId?: string;
+  verifier?: string;
+  slot?: number;
+  memo?: any;
+  inclusion?: AttestationInclusion; // batch memos: this agent's leaf and proof
+  createdAt: string;
+}
+
+// Withdrawal of an earlier attestation, published as its own memo
+export interface StoredRevocation {
+  signature: string; // revocation transaction
+  target: string; // attestation transaction it revokes
+  verificationId?: string; // a single agent's leaf within a batch
+  reason: string;
+  verifier?: string;
+  createdAt: string;
+}
+
+// Verified agent waiting for a batch attestation memo; kept until the memo is published
+export interface PendingAttestation {
+  verificationId: string;
+  entry: BatchEntry;
+  status: 'pending' | 'published';
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Newest signature already scanned for an address (attestation index sync)
+export interface SyncCursor {
+  address: string;
+  lastSignature: string;
+  updatedAt: string;
+}
+
+// Queued verification job as kept by the server
+export interface VerificationJob {
+  id: string;
+  endpoint: string;
+  capabilities: string[];
+  level: string;
+  walletAddress?: string;
+  signals?: AgentSignals;
+  status: 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+  attempts: number;
+  nextAttemptAt?: string;
+  lastError?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Storage adapter interface
+export interface Storage {
+  saveVerification(record: VerificationRecord): void;
+  getVerification(id: string): VerificationRecord | undefined;
+  getVerificationsByAgent(agent: string): VerificationRecord[];
+  listVerifications(limit: number): VerificationRecord[];
+  countVerifications(): number;
+  listExpiringBefore(before: string): VerificationRecord[];
+
+  saveTrace(trace: StoredTrace): void;
+  getTraces(agentId: string): StoredTrace[];
+
+  saveProof(proof: StoredProof): void;
+  getProof(proofHash: string): StoredProof | undefined;
+
+  saveAttestation(attestation: StoredAttestation): void;
+  getAttestation(signature: string): StoredAttestation | undefined;
+  getAttestationsByAgent(agentId: string): StoredAttestation[];
+  getBatchLeaves(signature: string): StoredAttestation[];
+
+  saveRevocation(revocation: StoredRevocation): void;
+  getRevocations(target: string): StoredRevocation[];
+
+  savePendingAttestation(pending: PendingAttestation): void;
+  listPendingAttestations(): PendingAttestation[]; // still unpublished, oldest first
+
+  getSyncCursor(address: string): SyncCursor | undefined;
+  saveSyncCursor(cursor: SyncCursor): void;
+
+  saveJob(job: VerificationJob): void;
+  getJob(id: string): VerificationJob | undefined;
+  listJobs(statuses: VerificationJob['status'][]): VerificationJob[];
+}
+
+function agentKey(agent: string): string {
+  return agent.toLowerCase();
+}
+
+// One entry per memo, or per agent leaf of a batch memo
+function attestationKey(attestation: StoredAttestation): string {
+  return attestation.inclusion ? `${attestation.signature}:${attestation.inclusion.leaf.vid}` : attestation.signature;
+}
+
+function addToIndex(index: Map<string, Set<string>>, key: string, id: string) {
+  const ids = index.get(key) || new Set<string>();
+  ids.add(id);
+  index.set(key, ids);
+}
+
+/**
+ * In-memory adapter (tests and local development)
+ */
+export class MemoryStorage implements Storage {
+  protected verifications = new Map<string, VerificationRecord>();
+  protected traces = new Map<string, StoredTrace[]>();
+  protected proofs = new Map<string, StoredProof>();
+  protected attestations = new Map<string, StoredAttestation>();
+  protected jobs = new Map<string, VerificationJob>();
+  protected revocations = new Map<string, StoredRevocation>();
+  protected cursors = new Map<string, SyncCursor>();
+  protected pendingAttestations = new Map<string, PendingAttestation>();
+
+  private verificationsByAgent = new Map<string, Set<string>>();
+  private attestationsByAgent = new Map<string, Set<string>>();
+  private leavesByBatch = new Map<string, Set<string>>();
+  private revocationsByTarget = new Map<string, Set<string>>();
+
+  saveVerification(record: VerificationRecord): void {
+    this.verifications.set(record.id, record);
+    addToIndex(this.verificationsByAgent, agentKey(record.agentName), record.id);
+  }
+
+  getVerification(id: string): VerificationRecord | undefined {
+    return this.verifications.get(id);
+  }
+
+  getVerificationsByAgent(agent: string): VerificationRecord[] {
+    const ids = this.verificationsByAgent.get(agentKey(agent)) || new Set<string>();
+    return Array.from(ids)
+      .map(id => this.verifications.get(id)!)
+      .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+  }
+
+  listVerifications(limit: number): VerificationRecord[] {
+    return Array.from(this.verifications.values())
+      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
+      .slice(0, limit);
+  }
+
+  countVerifications(): number {
+    return this.verifications.size;
+  }
+
+  listExpiringBefore(before: string): VerificationRecord[] {
+    const cutoff = Date.parse(before);
+    return Array.from(this.verifications.values()).filter(record =>
+      record.status === 'verified' && !!record.expiresAt && Date.parse(record.expiresAt) <= cutoff
+    );
+  }
+
+  saveTrace(trace: StoredTrace): void {
+    const key = agentKey(trace.agentId);
+    // Replace by id, so replaying a log entry twice is harmless
+    const agentTraces = (this.traces.get(key) || []).filter(existing => existing.id !== trace.id);
+    agentTraces.push(trace);
+    this.traces.set(key, agentTraces);
+  }
+
+  getTraces(agentId: string): StoredTrace[] {
+    return this.traces.get(agentKey(agentId)) || [];
+  }
+
+  saveProof(proof: StoredProof): void {
+    this.proofs.set(proof.proofHash, proof);
+  }
+
+  getProof(proofHash: string): StoredProof | undefined {
+    return this.proofs.get(proofHash);
+  }
+
+  saveAttestation(attestation: StoredAttestation): void {
+    const key = attestationKey(attestation);
+    this.attestations.set(key, attestation);
+    addToIndex(this.attestationsByAgent, agentKey(attestation.agentId), key);
+    // Scanned attestations are looked up by wallet address as well as name
+    if (attestation.agentAddress) {
+      addToIndex(this.attestationsByAgent, agentKey(attestation.agentAddress), key);
+    }
+    if (attestation.inclusion) {
+      addToIndex(this.leavesByBatch, attestation.signature, key);
+    }
+  }
+
+  getAttestation(signature: string): StoredAttestation | undefined {
+    return this.attestations.get(signature);
+  }
+
+  getAttestationsByAgent(agentId: string): StoredAttestation[] {
+    const keys = this.attestationsByAgent.get(agentKey(agentId)) || new Set<string>();
+    return Array.from(keys).map(key => this.attestations.get(key)!);
+  }
+
+  getBatchLeaves(signature: string): StoredAttestation[] {
+    const keys = this.leavesByBatch.get(signature) || new Set<string>();
+    return Array.from(keys).map(key => this.attestations.get(key)!);
+  }
+
+  saveRevocation(revocation: StoredRevocation): void {
+    this.revocations.set(revocation.signature, revocation);
+    addToIndex(this.revocationsByTarget, revocation.target, revocation.signature);
+  }
+
+  getRevocations(target: string): StoredRevocation[] {
+    const signatures = this.revocationsByTarget.get(target) || new Set<string>();
+    return Array.from(signatures).map(sig => this.revocations.get(sig)!);
+  }
+
+  savePendingAttestation(pending: PendingAttestation): void {
+    // Published entries have done their job
+    if (pending.status === 'published') {
+      this.pendingAttestations.delete(pending.verificationId);
+    } else {
+      this.pendingAttestations.set(pending.verificationId, pending);
+    }
+  }
+
+  listPendingAttestations(): PendingAttestation[] {
+    return Array.from(this.pendingAttestations.values())
+      .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+  }
+
+  getSyncCursor(address: string): SyncCursor | undefined {
+    return this.cursors.get(address);
+  }
+
+  saveSyncCursor(cursor: SyncCursor): void {
+    this.cursors.set(cursor.address, cursor);
+  }
+
+  saveJob(job: VerificationJob): void {
+    this.jobs.set(job.id, job);
+  }
+
+  getJob(id: string): VerificationJob | undefined {
+    return this.jobs.get(id);
+  }
+
+  listJobs(statuses: VerificationJob['status'][]): VerificationJob[] {
+    return Array.from(this.jobs.values())
+      .filter(job => statuses.includes(job.status))
+      .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+  }
+}
+
+interface StorageSnapshot {
+  verifications: VerificationRecord[];
+  traces: StoredTrace[];
+  proofs: StoredProof[];
+  attestations: StoredAttestation[];
+  jobs: VerificationJob[];
+  revocations?: StoredRevocation[];
+  cursors?: SyncCursor[];
+  pendingAttestations?: PendingAttestation[];
+}
+
+// One line of the append log
+type LogEntry =
+  | { type: 'verification'; value: VerificationRecord }
+  | { type: 'trace'; value: StoredTrace }
+  | { type: 'proof'; value: StoredProof }
+  | { type: 'attestation'; value: StoredAttestation }
+  | { type: 'revocation'; value: StoredRevocation }
+  | { type: 'cursor'; value: SyncCursor }
+  | { type: 'pendingAttestation'; value: PendingAttestation }
+  | { type: 'job'; value: VerificationJob };
+
+export interface FileStorageOptions {
+  compactAfter: number; // log entries before the snapshot is rewritten
+}
+
+export const DEFAULT_FILE_STORAGE_OPTIONS: FileStorageOptions = {
+  compactAfter: parseInt(process.env.STORAGE_COMPACT_AFTER || '') || 1000
+};
+
+/**
+ * File-backed adapter - keeps the working set in memory. Each save appends one
+ * JSON line to `<path>.log`; every `compactAfter` entries (and at startup) the
+ * state is written to the snapshot at `<path>` and the log starts over. Saves
+ * cost the size of the record, not of the whole store. Survives restarts when
+ * the path is on a volume.
+ */
+export class FileStorage extends MemoryStorage {
+  private filePath: string;
+  private logPath: string;
+  private options: FileStorageOptions;
+  private logEntries = 0;
+
+  constructor(filePath: string, options: Partial<FileStorageOptions> = {}) {
+    super();
+    this.filePath = filePath;
+    this.logPath = `${filePath}.log`;
+    this.options = { ...DEFAULT_FILE_STORAGE_OPTIONS, ...options };
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    this.load();
+    this.compact();
+  }
+
+  saveVerification(record: VerificationRecord): void {
+    super.saveVerification(record);
+    this.append({ type: 'verification', value: record });
+  }
+
+  saveTrace(trace: StoredTrace): void {
+    super.saveTrace(trace);
+    this.append({ type: 'trace', value: trace });
+  }
+
+  saveProof(proof: StoredProof): void {
+    super.saveProof(proof);
+    this.append({ type: 'proof', value: proof });
+  }
+
+  saveAttestation(attestation: StoredAttestation): void {
+    super.saveAttestation(attestation);
+    this.append({ type: 'attestation', value: attestation });
+  }
+
+  saveRevocation(revocation: StoredRevocation): void {
+    super.saveRevocation(revocation);
+    this.append({ type: 'revocation', value: revocation });
+  }
+
+  saveSyncCursor(cursor: SyncCursor): void {
+    super.saveSyncCursor(cursor);
+    this.append({ type: 'cursor', value: cursor });
+  }
+
+  savePendingAttestation(pending: PendingAttestation): void {
+    super.savePendingAttestation(pending);
+    this.append({ type: 'pendingAttestation', value: pending });
+  }
+
+  saveJob(job: VerificationJob): void {
+    super.saveJob(job);
+    this.append({ type: 'job', value: job });
+  }
+
+  private load() {
+    if (fs.existsSync(this.filePath)) {
+      const snapshot: StorageSnapshot = JSON.parse(fs.readFileSync(this.filePath, 'utf8'));
+
+      for (const record of snapshot.verifications || []) super.saveVerification(record);
+      for (const trace of snapshot.traces || []) super.saveTrace(trace);
+      for (const proof of snapshot.proofs || []) super.saveProof(proof);
+      for (const attestation of snapshot.attestations || []) super.saveAttestation(attestation);
+      for (const job of snapshot.jobs || []) super.saveJob(job);
+      for (const revocation of snapshot.revocations || []) super.saveRevocation(revocation);
+      for (const cursor of snapshot.cursors || []) super.saveSyncCursor(cursor);
+      for (const pending of snapshot.pendingAttestations || []) super.savePendingAttestation(pending);
+    }
+
+    if (fs.existsSync(this.logPath)) {
+      for (const line of fs.readFileSync(this.logPath, 'utf8').split('\n')) {
+        if (!line) continue;
+        let entry: LogEntry;
+        try {
+          entry = JSON.parse(line);
+        } catch {
+          // A crash mid-append leaves a torn last line; everything before it stands
+          console.warn(`Skipping unreadable entry in ${this.logPath}`);
+          continue;
+        }
+        this.replay(entry);
+      }
+    }
+  }
+
+  private replay(entry: LogEntry) {
+    switch (entry.type) {
+      case 'verification': return super.saveVerification(entry.value);
+      case 'trace': return super.saveTrace(entry.value);
+      case 'proof': return super.saveProof(entry.value);
+      case 'attestation': return super.saveAttestation(entry.value);
+      case 'revocation': return super.saveRevocation(entry.value);
+      case 'cursor': return super.saveSyncCursor(entry.value);
+      case 'pendingAttestation': return super.savePendingAttestation(entry.value);
+      case 'job': return super.saveJob(entry.value);
+    }
+  }
+
+  private append(entry: LogEntry) {
+    fs.appendFileSync(this.logPath, JSON.stringify(entry) + '\n');
+    if (++this.logEntries >= this.options.compactAfter) {
+      this.compact();
+    }
+  }
+
+  private compact() {
+    const snapshot: StorageSnapshot = {
+      verifications: Array.from(this.verifications.values()),
+      traces: Array.from(this.traces.values()).flat(),
+      proofs: Array.from(this.proofs.values()),
+      attestations: Array.from(this.attestations.values()),
+      jobs: Array.from(this.jobs.values()),
+      revocations: Array.from(this.revocations.values()),
+      cursors: Array.from(this.cursors.values()),
+      pendingAttestations: this.listPendingAttestations()
+    };
+
+    // Temp file and rename, so a crash never leaves a partial snapshot. A crash
+    // before the log is cleared only means replaying entries already applied.
+    const tmpPath = `${this.filePath}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify(snapshot));
+    fs.renameSync(tmpPath, this.filePath);
+    fs.writeFileSync(this.logPath, '');
+    this.logEntries = 0;
+  }
+}
+
+// Create the configured adapter (STORAGE_PATH enables file persistence)
+export function createStorage(): Storage {
+  const storagePath = process.env.STORAGE_PATH;
+  return storagePath ? new FileStorage(storagePath) : new MemoryStorage();
+}
@@ -0,0 +1,183 @@
+import { canonicalize } from './canonical';
+import { BehavioralScore, ExecutionTrace, SCORE_WEIGHTS } from './types';
+
+// Trace as stored by the server
+export interface StoredTrace {
+  id: string;
+  agentId: string;
+  trace: ExecutionTrace;
+  submittedAt: string;
+}
+
+// Aggregated behaviour across all of an agent's traces
+export interface TraceAggregate {
+  traceCount: number;
+  totalActions: number;
+  avgSuccessRate: number;
+  avgErrorRate: number;
+  avgResponseTime?: number;
+  coveredDays: number;
+  lastTraceAt?: string;
+}
+
+const MAX_ACTIONS_PER_TRACE = 10000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Validate a submitted trace, returning an error message or null
+export function validateTrace(trace: ExecutionTrace): string | null {
+  if (!trace || typeof trace !== 'object') {
+    return 'trace required';
+  }
+
+  if (!trace.period || !trace.summary) {
+    return 'trace.period and trace.summary required';
+  }
+
+  const start = Date.parse(trace.period.start);
+  const end = Date.parse(trace.period.end);
+  if (isNaN(start) || isNaN(end)) {
+    return 'trace.period.start and trace.period.end must be valid dates';
+  }
+  if (start > end) {
+    return 'trace.period.start must not be after trace.period.end';
+  }
+  if (end > Date.now() + DAY_MS) {
+    return 'trace.period.end is in the future';
+  }
+
+  const { totalActions, successRate, errorRate, avgResponseTime } = trace.summary;
+  if (!Number.isInteger(totalActions) || totalActions < 0) {
+    return 'trace.summary.totalActions must be a non-negative integer';
+  }
+  if (!isRate(successRate) || !isRate(errorRate)) {
+    return 'trace.summary.successRate and errorRate must be between 0 and 1';
+  }
+  if (successRate + errorRate > 1.0001) {
+    return 'trace.summary.successRate and errorRate must not sum to more than 1';
+  }
+  if (avgResponseTime !== undefined && (typeof avgResponseTime !== 'number' || avgResponseTime < 0)) {
+    return 'trace.summary.avgResponseTime must be a non-negative number';
+  }
+
+  if (trace.actions !== undefined) {
+    if (!Array.isArray(trace.actions)) {
+      return 'trace.actions must be an array';
+    }
+    if (trace.actions.length > Math.min(totalActions, MAX_ACTIONS_PER_TRACE)) {
+      return 'trace.actions exceeds trace.summary.totalActions';
+    }
+    for (const action of trace.actions) {
+      if (!action || typeof action.type !== 'string' || typeof action.success !== 'boolean') {
+        return 'each action requires type and success';
+      }
+      const ts = Date.parse(action.timestamp);
+      if (isNaN(ts) || ts < start || ts > end) {
+        return 'each action timestamp must fall within trace.period';
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * What an agent signs with its wallet key to submit a trace: canonical JSON
+ * of the agent id and trace. The signature is Ed25519, sent base64.
+ */
+export function traceSigningMessage(agentId: string, trace: ExecutionTrace): string {
+  return canonicalize({ type: 'poa-trace', agentId, trace });
+}
+
+// A stored trace whose period overlaps this one; periods may touch but not share time
+export function findOverlap(trace: ExecutionTrace, existing: StoredTrace[]): StoredTrace | undefined {
+  const start = Date.parse(trace.period.start);
+  const end = Date.parse(trace.period.end);
+  return existing.find(({ trace: other }) =>
+    start < Date.parse(other.period.end) && Date.parse(other.period.start) < end
+  );
+}
+
+function isRate(value: unknown): value is number {
+  return typeof value === 'number' && value >= 0 && value <= 1;
+}
+
+// Aggregate rates across traces, weighted by action count
+export function aggregateTraces(traces: StoredTrace[]): TraceAggregate {
+  let totalActions = 0;
+  let successSum = 0;
+  let errorSum = 0;
+  let responseSum = 0;
+  let responseActions = 0;
+  let lastTraceAt: string | undefined;
+
+  for (const { trace, submittedAt } of traces) {
+    const { summary } = trace;
+    totalActions += summary.totalActions;
+    successSum += summary.successRate * summary.totalActions;
+    errorSum += summary.errorRate * summary.totalActions;
+
+    if (summary.avgResponseTime !== undefined) {
+      responseSum += summary.avgResponseTime * summary.totalActions;
+      responseActions += summary.totalActions;
+    }
+
+    if (!lastTraceAt || submittedAt > lastTraceAt) {
+      lastTraceAt = submittedAt;
+    }
+  }
+
+  return {
+    traceCount: traces.length,
+    totalActions,
+    avgSuccessRate: totalActions > 0 ? successSum / totalActions : 0,
+    avgErrorRate: totalActions > 0 ? errorSum / totalActions : 0,
+    avgResponseTime: responseActions > 0 ? Math.round(responseSum / responseActions) : undefined,
+    coveredDays: coveredMs(traces) / DAY_MS,
+    lastTraceAt
+  };
+}
+
+// Time covered by the union of the trace periods, so overlaps count once
+function coveredMs(traces: StoredTrace[]): number {
+  const periods = traces
+    .map(({ trace }) => [Date.parse(trace.period.start), Date.parse(trace.period.end)])
+    .sort((a, b) => a[0] - b[0]);
+
+  let covered = 0;
+  let reached = -Infinity;
+  for (const [start, end] of periods) {
+    covered += Math.max(0, end - Math.max(start, reached));
+    reached = Math.max(reached, end);
+  }
+  return covered;
+}
+
+// Behavioral bonus (max SCORE_WEIGHTS.behavioralMax)
+export function calculateBehavioralScore(traces: StoredTrace[]): BehavioralScore {
+  const aggregate = aggregateTraces(traces);
+
+  if (aggregate.totalActions === 0) {
+    return { bonus: 0, traceCount: aggregate.traceCount, lastTraceAt: aggregate.lastTraceAt };
+  }
+
+  const max = SCORE_WEIGHTS.behavioralMax;
+
+  // 60% reliability: success rate above 50%
+  const reliability = Math.max(0, (aggregate.avgSuccessRate - 0.5) / 0.5);
+  // 20% volume: full credit at 1000 actions
+  const volume = Math.min(1, Math.log10(aggregate.totalActions) / 3);
+  // 20% history: full credit at 30 days of traced activity
+  const history = Math.min(1, aggregate.coveredDays / 30);
+
+  const bonus = Math.round(max * (0.6 * reliability + 0.2 * volume + 0.2 * history));
+
+  return {
+    bonus: Math.min(max, bonus),
+    traceCount: aggregate.traceCount,
+    lastTraceAt: aggregate.lastTraceAt,
+    avgSuccessRate: Math.round(aggregate.avgSuccessRate * 1000) / 1000,
+    avgErrorRate: Math.round(aggregate.avgErrorRate * 1000) / 1000,
+    avgResponseTime: aggregate.avgResponseTime,
+    totalActions: aggregate.totalActions
+  };
+}
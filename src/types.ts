@@ -2,6 +2,8 @@
  * Core types for Proof-of-Agent SDK
  */
 
+import { LatencyProfile } from './profiler';
+
 // Verification Levels
 export type VerificationLevel = 'basic' | 'standard' | 'comprehensive';
 
@@ -38,13 +40,14 @@ export interface VerificationResult {
   id: string;
   agentId: string;
   agentName?: string;
-  status: 'pending' | 'testing' | 'verified' | 'failed';
+  status: 'pending' | 'testing' | 'verified' | 'failed' | 'cancelled';
   score: number;
   tier: VerificationTier;
   checks: Record<string, boolean>;
   details?: Record<string, string>;
   attestation?: AttestationInfo;
   behavioral?: BehavioralScore;
+  profile?: LatencyProfile;
   createdAt: string;
   completedAt?: string;
   expiresAt?: string;
@@ -58,6 +61,34 @@ export interface AttestationInfo {
   validUntil: string;
   expiresAt: string;
   onChain: boolean;
+  inclusion?: AttestationInclusion; // set when published in a batch
+}
+
+// What a batched attestation commits to for one agent
+export interface AttestationLeaf {
+  vid: string; // verification id
+  agent: string;
+  name: string;
+  level: string;
+  score: number;
+  tier?: string;
+  checks: string; // sha256 of canonicalized { checks, details }
+  exp?: number; // unix seconds
+  ts: number;
+}
+
+export interface MerkleStep {
+  hash: string;
+  position: 'left' | 'right'; // side the sibling sits on
+}
+
+// Proof that an agent's leaf is under a batch root published on chain
+export interface AttestationInclusion {
+  signature?: string; // batch memo transaction, once published
+  root: string;
+  index: number;
+  leaf: AttestationLeaf;
+  proof: MerkleStep[];
 }
 
 // Behavioral Score
@@ -66,6 +97,9 @@ export interface BehavioralScore {
   traceCount: number;
   lastTraceAt?: string;
   avgSuccessRate?: number;
+  avgErrorRate?: number;
+  avgResponseTime?: number;
+  totalActions?: number;
 }
 
 // Execution Trace
@@ -92,25 +126,29 @@ export interface TraceAction {
   metadata?: Record<string, any>;
 }
 
-// STARK Proof
+// STARK Proof, as returned by /api/stark/generate (the full proof stays on the server)
 export interface StarkProof {
-  valid: boolean;
-  meetsThreshold: boolean;
+  valid: boolean; // the server's verifier run on the new proof
+  meetsThreshold?: boolean; // threshold proofs only
+  predicate: string; // the statement proven, in canonical form
   proof: {
-    commitment: string;
-    trace: string;
+    commitment: string; // the blinded result commitment, as publicInputs.commitment
     proofHash: string;
   };
   publicInputs: {
-    threshold: number;
+    predicate: string; // canonical text form
+    threshold?: number; // plain score threshold proofs only
+    commitment: string; // Poseidon2 commitment to the result the proof is about
+    checks: string[]; // names of the checks in that result
     agentIdHash: string;
     timestampVerified: number;
+    provedAt: number; // unix seconds
+    validUntil: number; // unix seconds
+    verificationId?: string;
   };
-  metadata: {
-    prover: string;
-    field: string;
-    security: number;
-  };
+  registration: string; // issuer-signed JWS tying the commitment to the verification
+  verificationId: string;
+  expiresAt: string;
 }
 
 // Badge Metadata (NFT)
@@ -150,6 +188,9 @@ export function calculateTier(score: number): VerificationTier {
   return 'needs-work';
 }
 
+// Tiers from lowest to highest, for comparisons
+export const TIER_RANK: Record<string, number> = { 'needs-work': 0, fair: 1, good: 2, excellent: 3 };
+
 // Score Weights
 export const SCORE_WEIGHTS = {
   hasGithub: 15,
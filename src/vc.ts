@@ -0,0 +1,146 @@
+/**
+ * Verification of PoA credentials (VC-JWT, EdDSA) without Node built-ins,
+ * so the client SDK can check them in a browser
+ */
+
+import { ed25519 } from '@noble/curves/ed25519';
+
+export const CREDENTIAL_TYPE = 'AgentVerificationCredential';
+
+// Public half of the issuer's Ed25519 key
+export interface PublicJwk {
+  kty?: string;
+  crv?: string;
+  x?: string;
+}
+
+export interface VerifiableCredential {
+  '@context': string[];
+  id: string;
+  type: string[];
+  issuer: string;
+  issuanceDate: string;
+  expirationDate: string;
+  credentialStatus?: {
+    id: string; // URL answering with the verification's current status
+    type: 'PoAVerificationStatus';
+  };
+  credentialSubject: Record<string, any> & { id: string };
+}
+
+export interface CredentialPayload {
+  iss: string;
+  sub: string;
+  jti: string;
+  nbf: number;
+  exp: number;
+  vc: VerifiableCredential;
+}
+
+// did:web document served at /.well-known/did.json
+export interface DidDocument {
+  '@context': string[];
+  id: string;
+  verificationMethod: Array<{
+    id: string;
+    type: 'JsonWebKey2020';
+    controller: string;
+    publicKeyJwk: PublicJwk;
+  }>;
+  assertionMethod: string[];
+}
+
+export interface CredentialVerification {
+  valid: boolean;
+  reason?:
+    | 'malformed'
+    | 'unsupported_algorithm'
+    | 'unknown_key'
+    | 'bad_signature'
+    | 'not_yet_valid'
+    | 'expired'
+    | 'revoked'; // only from an online status check
+  payload?: CredentialPayload;
+}
+
+function isDidDocument(issuer: DidDocument | PublicJwk): issuer is DidDocument {
+  return Array.isArray((issuer as DidDocument).verificationMethod);
+}
+
+export function decodeBase64Url(text: string): Uint8Array {
+  if (!/^[A-Za-z0-9_-]*$/.test(text)) {
+    throw new Error('Invalid base64url');
+  }
+  const base64 = text.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - base64.length % 4) % 4));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+}
+
+function decodeSegment(segment: string): any {
+  return JSON.parse(new TextDecoder().decode(decodeBase64Url(segment)));
+}
+
+/**
+ * Check a credential's signature against the issuer's DID document (or a
+ * bare public JWK) and its validity window. No network access.
+ */
+export function verifyCredential(
+  jwt: string,
+  issuer: DidDocument | PublicJwk,
+  now: number = Date.now()
+): CredentialVerification {
+  const parts = jwt.split('.');
+  if (parts.length !== 3) {
+    return { valid: false, reason: 'malformed' };
+  }
+
+  let header: any;
+  let payload: CredentialPayload;
+  try {
+    header = decodeSegment(parts[0]);
+    payload = decodeSegment(parts[1]);
+  } catch {
+    return { valid: false, reason: 'malformed' };
+  }
+
+  if (header.alg !== 'EdDSA') {
+    return { valid: false, reason: 'unsupported_algorithm', payload };
+  }
+
+  const jwk = isDidDocument(issuer)
+    ? issuer.verificationMethod.find(method =>
+        method.id === header.kid && issuer.assertionMethod.includes(method.id)
+      )?.publicKeyJwk
+    : issuer;
+  if (!jwk || jwk.kty !== 'OKP' || jwk.crv !== 'Ed25519' || !jwk.x ||
+      (isDidDocument(issuer) && payload.iss !== issuer.id)) {
+    return { valid: false, reason: 'unknown_key', payload };
+  }
+
+  let signatureValid: boolean;
+  try {
+    signatureValid = ed25519.verify(
+      decodeBase64Url(parts[2]),
+      new TextEncoder().encode(`${parts[0]}.${parts[1]}`),
+      decodeBase64Url(jwk.x),
+      { zip215: false } // strict RFC 8032, as when signing
+    );
+  } catch {
+    return { valid: false, reason: 'unknown_key', payload };
+  }
+
+  if (!signatureValid) {
+    return { valid: false, reason: 'bad_signature', payload };
+  }
+
+  // Credentials without an expiry aren't issued; don't accept one as open-ended
+  const nowSeconds = Math.floor(now / 1000);
+  if (typeof payload.nbf === 'number' && nowSeconds < payload.nbf) {
+    return { valid: false, reason: 'not_yet_valid', payload };
+  }
+  if (typeof payload.exp !== 'number' || nowSeconds >= payload.exp) {
+    return { valid: false, reason: 'expired', payload };
+  }
+
+  return { valid: true, payload };
+}
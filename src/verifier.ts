@@ -1,96 +1,395 @@
 import axios from 'axios';
+import { VerificationLevel } from './types';
+import { getChallengeSuite, runChallengeSuite } from './challenges';
+import { LatencyProfile, profileEndpoint, evaluateProfile } from './profiler';
 
 interface VerificationResult {
   score: number;
   checks: Record<string, boolean>;
   details: Record<string, string>;
+  timings?: Record<string, number>;
+  profile?: LatencyProfile;
+  retryable?: boolean;
 }
 
 interface AgentResponse {
   success: boolean;
   data?: any;
   error?: string;
+  retryable?: boolean;
   responseTime: number;
 }
 
+// Network failures worth retrying rather than scoring as a dead agent
+const TRANSIENT_ERROR_CODES = ['ECONNRESET', 'ETIMEDOUT', 'ECONNABORTED', 'EAI_AGAIN', 'ENETUNREACH'];
+const TRANSIENT_STATUS_CODES = [429, 502, 503, 504];
+
+function isTransientError(error: any): boolean {
+  if (error.code && TRANSIENT_ERROR_CODES.includes(error.code)) {
+    return true;
+  }
+  return !!error.response && TRANSIENT_STATUS_CODES.includes(error.response.status);
+}
+
+// Context shared by every check in a verification run
+export interface CheckContext {
+  endpoint: string;
+  baseUrl: string;
+  capabilities: string[];
+  level: VerificationLevel;
+  results: Record<string, CheckOutcome>;
+}
+
+export interface CheckOutcome {
+  success: boolean;
+  detail: string;
+  responseTime?: number;
+  retryable?: boolean;
+  data?: any;
+  // Partial credit 0-1 (defaults to 1 if passed, 0 if not)
+  credit?: number;
+  // Reported in details as `<check id>.<key>`
+  subDetails?: Record<string, string>;
+}
+
+// A registered verification check
+export interface CheckDefinition {
+  id: string;
+  weight: number;
+  minLevel: VerificationLevel;
+  timeout: number;
+  dependsOn?: string[];
+  run(context: CheckContext): Promise<CheckOutcome>;
+}
+
+// Progress reported while verifyAgent runs
+export interface CheckProgress {
+  type: 'check.started' | 'check.finished' | 'check.skipped';
+  check: string;
+  success?: boolean;
+  detail?: string;
+  durationMs?: number;
+}
+
+const LEVEL_RANK: Record<VerificationLevel, number> = {
+  basic: 0,
+  standard: 1,
+  comprehensive: 2
+};
+
+const CAPABILITY_WEIGHT = 10;
+
+const registry = new Map<string, CheckDefinition>();
+
+/**
+ * Register a check to run as part of verifyAgent
+ */
+export function registerCheck(check: CheckDefinition): void {
+  const invalid = validateCheck(check);
+  if (invalid) {
+    throw new Error(`Invalid check ${check?.id ?? '(no id)'}: ${invalid}`);
+  }
+  if (registry.has(check.id)) {
+    throw new Error(`Check already registered: ${check.id}`);
+  }
+  if (check.id.startsWith('capability_')) {
+    throw new Error('capability_ check ids are reserved');
+  }
+  registry.set(check.id, check);
+}
+
+// A typo'd level or weight would otherwise mean a check silently never runs or never counts
+function validateCheck(check: CheckDefinition): string | null {
+  if (!check || typeof check.id !== 'string' || !check.id) {
+    return 'id must be a non-empty string';
+  }
+  if (typeof check.weight !== 'number' || !isFinite(check.weight) || check.weight < 0) {
+    return 'weight must be a non-negative number';
+  }
+  if (!(check.minLevel in LEVEL_RANK)) {
+    return `minLevel must be one of ${Object.keys(LEVEL_RANK).join(', ')}`;
+  }
+  if (typeof check.timeout !== 'number' || !isFinite(check.timeout) || check.timeout <= 0) {
+    return 'timeout must be a positive number of milliseconds';
+  }
+  if (check.dependsOn !== undefined &&
+      (!Array.isArray(check.dependsOn) || !check.dependsOn.every(dep => typeof dep === 'string'))) {
+    return 'dependsOn must be an array of check ids';
+  }
+  if (typeof check.run !== 'function') {
+    return 'run must be a function';
+  }
+  return null;
+}
+
+export function unregisterCheck(id: string): boolean {
+  return registry.delete(id);
+}
+
+export function getRegisteredChecks(): CheckDefinition[] {
+  return Array.from(registry.values());
+}
+
+// Unknown levels run everything, as comprehensive
+function toLevel(level: string): VerificationLevel {
+  return level === 'basic' || level === 'standard' ? level : 'comprehensive';
+}
+
 // Main verification function
 export async function verifyAgent(
   endpoint: string,
   capabilities: string[],
-  level: string
+  level: string,
+  onProgress?: (progress: CheckProgress) => void
 ): Promise<VerificationResult> {
   const checks: Record<string, boolean> = {};
   const details: Record<string, string> = {};
+  const weights: Record<string, number> = {};
+  const credits: Record<string, number> = {};
+  const timings: Record<string, number> = {};
+
+  const context: CheckContext = {
+    endpoint,
+    baseUrl: endpoint.replace(/\/+$/, ''),
+    capabilities,
+    level: toLevel(level),
+    results: {}
+  };
 
-  // 1. Liveness check - does endpoint respond?
-  const liveness = await checkLiveness(endpoint);
-  checks.liveness = liveness.success;
-  details.liveness = liveness.success 
-    ? `Responded in ${liveness.responseTime}ms` 
-    : liveness.error || 'Failed to connect';
+  let retryable = false;
+
+  for (const check of planChecks(context)) {
+    const unmet = (check.dependsOn || []).filter(dep => !context.results[dep]?.success);
+    if (unmet.length > 0) {
+      const detail = `Requires ${unmet.join(', ')}`;
+      onProgress?.({ type: 'check.skipped', check: check.id, detail });
+      // Skipped checks count as failed, so the score is out of every planned check
+      checks[check.id] = false;
+      details[check.id] = detail;
+      weights[check.id] = check.weight;
+      credits[check.id] = 0;
+      continue;
+    }
 
-  if (!liveness.success) {
-    return { score: 0, checks, details };
-  }
+    onProgress?.({ type: 'check.started', check: check.id });
+    const started = Date.now();
+    const outcome = await runCheck(check, context);
+    timings[check.id] = Date.now() - started;
+    onProgress?.({
+      type: 'check.finished',
+      check: check.id,
+      success: outcome.success,
+      detail: outcome.detail,
+      durationMs: timings[check.id]
+    });
 
-  // 2. Health endpoint check
-  const health = await checkHealth(endpoint);
-  checks.healthEndpoint = health.success;
-  details.healthEndpoint = health.success 
-    ? 'Health endpoint available' 
-    : 'No health endpoint';
-
-  // 3. Response format check - returns valid JSON
-  const format = await checkResponseFormat(endpoint);
-  checks.validJson = format.success;
-  details.validJson = format.success 
-    ? 'Returns valid JSON' 
-    : 'Invalid response format';
-
-  // Basic level stops here
-  if (level === 'basic') {
-    return calculateScore(checks, details);
+    context.results[check.id] = outcome;
+    checks[check.id] = outcome.success;
+    details[check.id] = outcome.detail;
+    for (const [key, detail] of Object.entries(outcome.subDetails || {})) {
+      details[`${check.id}.${key}`] = detail;
+    }
+    weights[check.id] = check.weight;
+    credits[check.id] = outcome.credit ?? (outcome.success ? 1 : 0);
+    retryable = retryable || !!outcome.retryable;
   }
 
-  // 4. Capability tests (standard+)
-  for (const cap of capabilities) {
-    const capResult = await testCapability(endpoint, cap);
-    checks[`capability_${cap}`] = capResult.success;
-    details[`capability_${cap}`] = capResult.success
-      ? `${cap} capability verified`
-      : `${cap} capability failed`;
+  // Liveness gates everything else
+  if (checks.liveness === false) {
+    return { score: 0, checks, details, timings, retryable };
   }
 
-  // Standard level stops here
-  if (level === 'standard') {
-    return calculateScore(checks, details);
+  return {
+    ...calculateScore(checks, details, weights, credits),
+    timings,
+    profile: context.results.loadProfile?.data
+  };
+}
+
+// Registered checks at or below the level, plus one per capability, ordered by dependencies
+function planChecks(context: CheckContext): CheckDefinition[] {
+  const rank = LEVEL_RANK[context.level];
+  const candidates = [
+    ...getRegisteredChecks(),
+    ...context.capabilities.map(capabilityCheck)
+  ]
+    .filter(check => LEVEL_RANK[check.minLevel] <= rank)
+    .sort((a, b) => LEVEL_RANK[a.minLevel] - LEVEL_RANK[b.minLevel]);
+
+  const byId = new Map(candidates.map(check => [check.id, check]));
+  const ordered: CheckDefinition[] = [];
+  const visiting = new Set<string>();
+  const visited = new Set<string>();
+
+  const visit = (check: CheckDefinition) => {
+    if (visited.has(check.id)) return;
+    if (visiting.has(check.id)) {
+      throw new Error(`Circular check dependency at ${check.id}`);
+    }
+    visiting.add(check.id);
+    for (const dep of check.dependsOn || []) {
+      const depCheck = byId.get(dep);
+      if (depCheck) visit(depCheck);
+    }
+    visiting.delete(check.id);
+    visited.add(check.id);
+    ordered.push(check);
+  };
+
+  candidates.forEach(visit);
+  return ordered;
+}
+
+async function runCheck(check: CheckDefinition, context: CheckContext): Promise<CheckOutcome> {
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<CheckOutcome>(resolve => {
+    timer = setTimeout(
+      () => resolve({ success: false, detail: `Timed out after ${check.timeout}ms` }),
+      check.timeout
+    );
+  });
+
+  try {
+    return await Promise.race([check.run(context), timeout]);
+  } catch (error: any) {
+    return { success: false, detail: error.message || 'Check threw an error' };
+  } finally {
+    clearTimeout(timer);
   }
+}
 
-  // 5. Comprehensive tests
-  // Consistency - same input = consistent output structure
-  const consistency = await checkConsistency(endpoint);
-  checks.consistency = consistency.success;
-  details.consistency = consistency.success
-    ? 'Responses are consistent'
-    : 'Inconsistent responses';
-
-  // Error handling - graceful failure
-  const errorHandling = await checkErrorHandling(endpoint);
-  checks.errorHandling = errorHandling.success;
-  details.errorHandling = errorHandling.success
-    ? 'Handles errors gracefully'
-    : 'Poor error handling';
-
-  // Rate limiting - respects reasonable limits
-  const rateLimit = await checkRateLimiting(endpoint);
-  checks.rateLimiting = rateLimit.success;
-  details.rateLimiting = rateLimit.success
-    ? 'Has rate limiting'
-    : 'No rate limiting detected';
-
-  return calculateScore(checks, details);
+function capabilityCheck(capability: string): CheckDefinition {
+  return {
+    id: `capability_${capability}`,
+    weight: CAPABILITY_WEIGHT,
+    minLevel: 'standard',
+    timeout: 60000,
+    dependsOn: ['liveness'],
+    run: async ({ baseUrl }) => testCapability(baseUrl, capability)
+  };
 }
 
+// Built-in checks
+registerCheck({
+  id: 'liveness',
+  weight: 30,
+  minLevel: 'basic',
+  timeout: 12000,
+  run: async ({ endpoint }) => {
+    const liveness = await checkLiveness(endpoint);
+    return {
+      success: liveness.success,
+      detail: liveness.success
+        ? `Responded in ${liveness.responseTime}ms`
+        : liveness.error || 'Failed to connect',
+      responseTime: liveness.responseTime,
+      retryable: liveness.retryable
+    };
+  }
+});
+
+registerCheck({
+  id: 'healthEndpoint',
+  weight: 10,
+  minLevel: 'basic',
+  timeout: 25000,
+  dependsOn: ['liveness'],
+  run: async ({ endpoint }) => {
+    const health = await checkHealth(endpoint);
+    return {
+      success: health.success,
+      detail: health.success ? 'Health endpoint available' : 'No health endpoint',
+      data: health.data
+    };
+  }
+});
+
+registerCheck({
+  id: 'validJson',
+  weight: 15,
+  minLevel: 'basic',
+  timeout: 7000,
+  dependsOn: ['liveness'],
+  run: async ({ endpoint }) => {
+    const format = await checkResponseFormat(endpoint);
+    return {
+      success: format.success,
+      detail: format.success ? 'Returns valid JSON' : 'Invalid response format'
+    };
+  }
+});
+
+// Consistency - same input = consistent output structure
+registerCheck({
+  id: 'consistency',
+  weight: 10,
+  minLevel: 'comprehensive',
+  timeout: 7000,
+  dependsOn: ['liveness'],
+  run: async ({ endpoint }) => {
+    const consistency = await checkConsistency(endpoint);
+    return {
+      success: consistency.success,
+      detail: consistency.success ? 'Responses are consistent' : 'Inconsistent responses'
+    };
+  }
+});
+
+// Error handling - graceful failure
+registerCheck({
+  id: 'errorHandling',
+  weight: 10,
+  minLevel: 'comprehensive',
+  timeout: 7000,
+  dependsOn: ['liveness'],
+  run: async ({ endpoint }) => {
+    const errorHandling = await checkErrorHandling(endpoint);
+    return {
+      success: errorHandling.success,
+      detail: errorHandling.success ? 'Handles errors gracefully' : 'Poor error handling'
+    };
+  }
+});
+
+// Load profile - latency percentiles, error rate and throughput under load
+registerCheck({
+  id: 'loadProfile',
+  weight: 15,
+  minLevel: 'comprehensive',
+  timeout: 120000,
+  dependsOn: ['liveness'],
+  run: async ({ endpoint }) => {
+    const profile = await profileEndpoint(endpoint);
+    const evaluation = evaluateProfile(profile);
+    const summary = `p50 ${profile.overall.p50}ms, p95 ${profile.overall.p95}ms, ` +
+      `p99 ${profile.overall.p99}ms, ${profile.concurrent.throughput} req/s`;
+
+    return {
+      success: evaluation.passed,
+      detail: evaluation.passed ? summary : `${summary} (${evaluation.failures.join('; ')})`,
+      responseTime: profile.overall.p50,
+      credit: evaluation.credit,
+      data: profile
+    };
+  }
+});
+
+// Rate limiting - respects reasonable limits
+registerCheck({
+  id: 'rateLimiting',
+  weight: 5,
+  minLevel: 'comprehensive',
+  timeout: 7000,
+  dependsOn: ['liveness'],
+  run: async ({ endpoint }) => {
+    const rateLimit = await checkRateLimiting(endpoint);
+    return {
+      success: rateLimit.success,
+      detail: rateLimit.success ? 'Has rate limiting' : 'No rate limiting detected'
+    };
+  }
+});
+
 // Individual test functions
 async function checkLiveness(endpoint: string): Promise<AgentResponse> {
   const start = Date.now();
@@ -104,6 +403,7 @@ async function checkLiveness(endpoint: string): Promise<AgentResponse> {
     return {
       success: false,
       error: error.message,
+      retryable: isTransientError(error),
       responseTime: Date.now() - start
     };
   }
@@ -143,57 +443,38 @@ async function checkResponseFormat(endpoint: string): Promise<AgentResponse> {
   }
 }
 
-async function testCapability(endpoint: string, capability: string): Promise<AgentResponse> {
-  const baseUrl = endpoint.replace(/\/+$/, '');
-  
-  const testPrompts: Record<string, any> = {
-    trading: {
-      path: '/analyze',
-      body: { symbol: 'SOL', action: 'analyze' },
-      expectedFields: ['recommendation', 'signal', 'action']
-    },
-    analysis: {
-      path: '/analyze',
-      body: { query: 'What is the current market sentiment?' },
-      expectedFields: ['analysis', 'summary', 'result']
-    },
-    social: {
-      path: '/generate',
-      body: { prompt: 'Generate a tweet about Solana' },
-      expectedFields: ['content', 'text', 'response']
-    },
-    defi: {
-      path: '/quote',
-      body: { fromToken: 'SOL', toToken: 'USDC', amount: 1 },
-      expectedFields: ['quote', 'price', 'route']
-    }
-  };
-
-  const test = testPrompts[capability] || {
-    path: '/test',
-    body: { capability },
-    expectedFields: ['success', 'result']
-  };
-
-  try {
-    const response = await axios.post(`${baseUrl}${test.path}`, test.body, {
-      timeout: 15000,
-      validateStatus: () => true // Accept any status
-    });
+async function testCapability(baseUrl: string, capability: string): Promise<CheckOutcome> {
+  const suite = getChallengeSuite(capability);
+  if (!suite) {
+    return { success: false, detail: `No challenge suite for ${capability}` };
+  }
 
-    // Check if response has any expected fields
-    if (typeof response.data === 'object') {
-      const hasExpectedField = test.expectedFields.some(
-        (field: string) => field in response.data
-      );
-      if (hasExpectedField || response.status === 200) {
-        return { success: true, data: response.data, responseTime: 0 };
-      }
+  const result = await runChallengeSuite(baseUrl, suite, capability);
+
+  const subDetails: Record<string, string> = {};
+  let passed = 0;
+  let total = 0;
+  for (const challenge of result.challenges) {
+    for (const assertion of challenge.assertions) {
+      subDetails[`${challenge.id}.${assertion.id}`] =
+        `${assertion.passed ? 'pass' : 'fail'}: ${assertion.message}`;
+      total++;
+      if (assertion.passed) passed++;
     }
-    return { success: false, responseTime: 0 };
-  } catch {
-    return { success: false, responseTime: 0 };
   }
+
+  const accuracy = `${Math.round(result.accuracy * 100)}% accuracy`;
+
+  return {
+    success: result.passed,
+    detail: result.passed
+      ? `${capability} capability verified (${passed}/${total} assertions, ${accuracy})`
+      : `${capability} capability failed (${passed}/${total} assertions, ${accuracy})`,
+    credit: result.accuracy,
+    responseTime: result.challenges.reduce((sum, c) => sum + c.responseTime, 0),
+    data: result.challenges.map(c => c.data),
+    subDetails
+  };
 }
 
 async function checkConsistency(endpoint: string): Promise<AgentResponse> {
@@ -261,33 +542,22 @@ async function checkRateLimiting(endpoint: string): Promise<AgentResponse> {
 
 function calculateScore(
   checks: Record<string, boolean>,
-  details: Record<string, string>
+  details: Record<string, string>,
+  weights: Record<string, number>,
+  credits: Record<string, number>
 ): VerificationResult {
-  const total = Object.keys(checks).length;
-  const passed = Object.values(checks).filter(Boolean).length;
-  
-  // Weight certain checks higher
   let score = 0;
-  const weights: Record<string, number> = {
-    liveness: 30,
-    healthEndpoint: 10,
-    validJson: 15,
-    consistency: 10,
-    errorHandling: 10,
-    rateLimiting: 5
-  };
 
   for (const [check, passed] of Object.entries(checks)) {
-    if (passed) {
-      score += weights[check] || 10; // Default 10 for capabilities
-    }
+    const credit = credits[check] ?? (passed ? 1 : 0);
+    score += (weights[check] ?? CAPABILITY_WEIGHT) * credit;
   }
 
   // Normalize to 100
   const maxScore = Object.keys(checks).reduce(
-    (sum, key) => sum + (weights[key] || 10), 0
+    (sum, key) => sum + (weights[key] ?? CAPABILITY_WEIGHT), 0
   );
-  const normalizedScore = Math.round((score / maxScore) * 100);
+  const normalizedScore = maxScore > 0 ? Math.round((score / maxScore) * 100) : 0;
 
   return {
     score: normalizedScore,
@@ -0,0 +1,120 @@
+/**
+ * Signed webhook callbacks for completed verifications
+ */
+
+import axios from 'axios';
+import { createHmac, randomBytes } from 'crypto';
+
+export type WebhookEvent = 'verification.completed' | 'verification.failed';
+
+export interface WebhookDelivery {
+  id: string;
+  event: WebhookEvent;
+  attempt: number;
+  success: boolean;
+  statusCode?: number;
+  error?: string;
+  attemptedAt: string;
+  nextRetryAt?: string;
+}
+
+export interface WebhookOptions {
+  maxAttempts: number;
+  backoffMs: number;
+  timeout: number;
+}
+
+export const SIGNATURE_HEADER = 'X-PoA-Signature';
+
+export const DEFAULT_WEBHOOK_OPTIONS: WebhookOptions = {
+  maxAttempts: parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '') || 5,
+  backoffMs: parseInt(process.env.WEBHOOK_BACKOFF_MS || '') || 1000,
+  timeout: 10000
+};
+
+// Statuses worth retrying; any other 4xx means the receiver rejected the payload
+const RETRYABLE_STATUS_CODES = [408, 425, 429];
+
+/**
+ * HMAC-SHA256 over `<timestamp>.<body>`, sent as `t=<timestamp>,v1=<hex>`.
+ * Receivers recompute it with the shared secret and reject stale timestamps.
+ */
+export function signPayload(secret: string, timestamp: number, body: string): string {
+  const digest = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `t=${timestamp},v1=${digest}`;
+}
+
+export function isValidCallbackUrl(url: string): boolean {
+  try {
+    const parsed = new URL(url);
+    return parsed.protocol === 'https:' || parsed.protocol === 'http:';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * POST a payload to a callback URL, retrying with exponential backoff.
+ * Every attempt is reported through onAttempt for the delivery log.
+ */
+export async function deliverWebhook(
+  url: string,
+  event: WebhookEvent,
+  payload: object,
+  secret: string,
+  onAttempt: (delivery: WebhookDelivery) => void,
+  options: Partial<WebhookOptions> = {}
+): Promise<boolean> {
+  const opts = { ...DEFAULT_WEBHOOK_OPTIONS, ...options };
+  const deliveryId = `whd-${randomBytes(8).toString('hex')}`;
+  const body = JSON.stringify({ event, deliveryId, ...payload });
+
+  for (let attempt = 1; attempt <= opts.maxAttempts; attempt++) {
+    const timestamp = Math.floor(Date.now() / 1000);
+    const delivery: WebhookDelivery = {
+      id: deliveryId,
+      event,
+      attempt,
+      success: false,
+      attemptedAt: new Date().toISOString()
+    };
+
+    let retryable = true;
+    try {
+      const response = await axios.post(url, body, {
+        timeout: opts.timeout,
+        validateStatus: () => true,
+        headers: {
+          'Content-Type': 'application/json',
+          'X-PoA-Event': event,
+          'X-PoA-Delivery': deliveryId,
+          [SIGNATURE_HEADER]: signPayload(secret, timestamp, body)
+        }
+      });
+
+      delivery.statusCode = response.status;
+      delivery.success = response.status >= 200 && response.status < 300;
+      retryable = response.status >= 500 || RETRYABLE_STATUS_CODES.includes(response.status);
+    } catch (error: any) {
+      delivery.error = error.message;
+    }
+
+    const delay = opts.backoffMs * Math.pow(2, attempt - 1);
+    if (!delivery.success && retryable && attempt < opts.maxAttempts) {
+      delivery.nextRetryAt = new Date(Date.now() + delay).toISOString();
+    }
+
+    onAttempt(delivery);
+
+    if (delivery.success) {
+      return true;
+    }
+    if (!delivery.nextRetryAt) {
+      return false;
+    }
+
+    await new Promise(resolve => setTimeout(resolve, delay));
+  }
+
+  return false;
+}
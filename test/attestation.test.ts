@@ -0,0 +1,321 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { createHash } from 'crypto';
+import {
+  Keypair,
+  PublicKey,
+  SystemProgram,
+  Transaction,
+  TransactionInstruction,
+  TransactionMessage,
+  VersionedTransactionResponse
+} from '@solana/web3.js';
+import {
+  AttestationMemo,
+  AttestationSubject,
+  buildAttestationLeaf,
+  checkAttestation,
+  createAttestation,
+  decodeAttestationTransaction,
+  getAgentAttestations,
+  knownVerifierKeys,
+  syncAttestations,
+  verifyAttestation
+} from '../src/attestation';
+import { buildMerkleTree, hashLeaf } from '../src/merkle';
+import { KeypairSigner } from '../src/signer';
+import { MemoryStorage } from '../src/storage';
+import { StubChain } from './helpers/stubChain';
+
+const verifier = Keypair.generate();
+const agent = Keypair.generate().publicKey.toBase58();
+
+function attestationMemo(vid: string): AttestationMemo {
+  return {
+    type: 'poa',
+    version: '2.0',
+    vid,
+    agent,
+    name: 'bot',
+    level: 'basic',
+    score: 80,
+    checks: 'hash',
+    ts: 1767225600,
+    verifier: verifier.publicKey.toBase58()
+  };
+}
+
+describe('v2 attestation memos', () => {
+  const subject: AttestationSubject = {
+    id: 'v1',
+    agentName: 'bot',
+    level: 'standard',
+    score: 80,
+    tier: 'excellent',
+    checks: { responseTime: true, liveness: true, errorHandling: false },
+    details: { liveness: 'HTTP 200', errorHandling: 'HTTP 500 on bad input' },
+    expiresAt: '2026-03-01T00:00:00.000Z'
+  };
+
+  // Keys sorted at every level, no whitespace
+  const canonical = '{"checks":{"errorHandling":false,"liveness":true,"responseTime":true},' +
+    '"details":{"errorHandling":"HTTP 500 on bad input","liveness":"HTTP 200"}}';
+  const checksHash = createHash('sha256').update(canonical).digest('hex');
+
+  it('commits to the SHA-256 of the canonical checks and details', async () => {
+    const published = await createAttestation(subject, agent, {
+      signer: new KeypairSigner(verifier),
+      dryRun: true,
+      recentBlockhash: '11111111111111111111111111111111'
+    });
+
+    // As read back from the memo instruction's data
+    const [instruction] = Transaction.from(Buffer.from(published.transaction!, 'base64')).instructions;
+    const memo = JSON.parse(instruction.data.toString('utf8'));
+
+    expect(memo).toEqual({
+      type: 'poa',
+      version: '2.0',
+      vid: 'v1',
+      agent,
+      name: 'bot',
+      level: 'standard',
+      score: 80,
+      tier: 'excellent',
+      checks: checksHash,
+      exp: Date.parse('2026-03-01T00:00:00.000Z') / 1000,
+      ts: published.timestamp,
+      verifier: verifier.publicKey.toBase58()
+    });
+  });
+
+  it('matches the stored result only while its checks and details are unchanged', () => {
+    const memo = { ...attestationMemo('v1'), checks: checksHash };
+    const now = Date.parse('2026-02-01T00:00:00.000Z');
+
+    expect(checkAttestation(memo, subject, undefined, now).checksMatch).toBe(true);
+    expect(checkAttestation(memo, { ...subject, checks: { ...subject.checks, errorHandling: true } }, undefined, now).checksMatch).toBe(false);
+    expect(checkAttestation(memo, { ...subject, details: { liveness: 'HTTP 200' } }, undefined, now).checksMatch).toBe(false);
+    expect(checkAttestation(memo, { ...subject, id: 'v2' }, undefined, now).checksMatch).toBe(false);
+  });
+});
+
+describe('decoding attestation transactions', () => {
+  const verifiers = new Set([verifier.publicKey.toBase58()]);
+  const memoProgram = new PublicKey('MemoSq4gqABAXKb96qnH8TysNcWxMyWCqXgDLGmfcHr');
+  const legacyMemoProgram = new PublicKey('Memo1UhkJRfHyvLMcVucJwxXeuD728EqVDDwQDxFMNo');
+
+  function memoInstruction(data: string | object, programId = memoProgram, signer?: PublicKey) {
+    return new TransactionInstruction({
+      keys: signer ? [{ pubkey: signer, isSigner: true, isWritable: false }] : [],
+      programId,
+      data: Buffer.from(typeof data === 'string' ? data : JSON.stringify(data))
+    });
+  }
+
+  // A confirmed transaction as getTransaction returns it, legacy or v0
+  function fetched(
+    instructions: TransactionInstruction[],
+    options: { payer?: PublicKey; v0?: boolean; err?: object } = {}
+  ): VersionedTransactionResponse {
+    const payerKey = options.payer || verifier.publicKey;
+    const recentBlockhash = '11111111111111111111111111111111';
+    const message = options.v0
+      ? new TransactionMessage({ payerKey, recentBlockhash, instructions }).compileToV0Message()
+      : new Transaction({ feePayer: payerKey, recentBlockhash }).add(...instructions).compileMessage();
+    return {
+      slot: 1,
+      blockTime: 1767225600,
+      transaction: { message, signatures: [] },
+      meta: { err: options.err ?? null }
+    } as unknown as VersionedTransactionResponse;
+  }
+
+  it('reads the memo from instruction data, quotes and all', () => {
+    const memo = { ...attestationMemo('v1'), name: 'bot "the \\ quoted"\nagent' };
+    const decoded = decodeAttestationTransaction(fetched([memoInstruction(memo)]), verifiers);
+
+    expect(decoded).toEqual({
+      valid: true,
+      signers: [verifier.publicKey.toBase58()],
+      version: '2.0',
+      attestation: memo
+    });
+  });
+
+  it('finds the PoA memo among other instructions and memos', () => {
+    const memo = attestationMemo('v1');
+    const tx = fetched([
+      SystemProgram.transfer({ fromPubkey: verifier.publicKey, toPubkey: new PublicKey(agent), lamports: 1 }),
+      memoInstruction('gm'),
+      memoInstruction({ type: 'other', version: '2.0' }),
+      memoInstruction(memo, legacyMemoProgram)
+    ], { v0: true });
+
+    expect(decodeAttestationTransaction(tx, verifiers)).toMatchObject({ valid: true, attestation: memo });
+  });
+
+  it('reports why a transaction is not an attestation', () => {
+    const transfer = SystemProgram.transfer({ fromPubkey: verifier.publicKey, toPubkey: new PublicKey(agent), lamports: 1 });
+
+    expect(decodeAttestationTransaction(fetched([transfer]), verifiers)).toMatchObject({ valid: false, reason: 'no_memo' });
+    expect(decodeAttestationTransaction(fetched([memoInstruction('{"type":"poa","version":"2.0"')]), verifiers))
+      .toMatchObject({ valid: false, reason: 'invalid_memo' });
+    expect(decodeAttestationTransaction(fetched([memoInstruction({ ...attestationMemo('v1'), version: '3.0' })]), verifiers))
+      .toMatchObject({ valid: false, reason: 'invalid_memo' });
+    expect(decodeAttestationTransaction(fetched([memoInstruction(attestationMemo('v1'))], { err: { InstructionError: [0, 'Custom'] } }), verifiers))
+      .toMatchObject({ valid: false, reason: 'transaction_failed', error: '{"InstructionError":[0,"Custom"]}' });
+  });
+
+  it('rejects memos signed by an unknown key', () => {
+    const impostor = Keypair.generate().publicKey;
+    const memo = { ...attestationMemo('v1'), verifier: impostor.toBase58() };
+
+    expect(decodeAttestationTransaction(fetched([memoInstruction(memo)], { payer: impostor }), verifiers)).toEqual({
+      valid: false,
+      reason: 'unknown_signer',
+      signers: [impostor.toBase58()],
+      version: '2.0',
+      attestation: memo
+    });
+
+    // Naming a known verifier in the memo doesn't help without its signature
+    expect(decodeAttestationTransaction(fetched([memoInstruction(attestationMemo('v1'))], { payer: impostor }), verifiers))
+      .toMatchObject({ valid: false, reason: 'unknown_signer' });
+  });
+
+  it('rejects memos naming a verifier other than the known signer', () => {
+    const other = Keypair.generate().publicKey;
+    const memo = { ...attestationMemo('v1'), verifier: other.toBase58() };
+    const both = new Set([...verifiers, other.toBase58()]);
+
+    expect(decodeAttestationTransaction(fetched([memoInstruction(memo)]), both))
+      .toMatchObject({ valid: false, reason: 'verifier_mismatch', signers: [verifier.publicKey.toBase58()] });
+    // Co-signed by the verifier it names
+    expect(decodeAttestationTransaction(fetched([memoInstruction(memo, memoProgram, other)]), both))
+      .toMatchObject({ valid: true, signers: [verifier.publicKey.toBase58(), other.toBase58()] });
+  });
+
+  it('reports missing transactions and RPC errors from verifyAttestation', async () => {
+    const chain = new StubChain(verifier.publicKey);
+    expect(await verifyAttestation('missing', { connection: chain.connection(), storage: new MemoryStorage() }))
+      .toEqual({ valid: false, reason: 'not_found' });
+
+    const failing = { getTransaction: async () => { throw new Error('429 Too Many Requests'); } } as any;
+    expect(await verifyAttestation('sig-1', { connection: failing }))
+      .toEqual({ valid: false, reason: 'rpc_error', error: '429 Too Many Requests' });
+  });
+});
+
+describe('syncAttestations', () => {
+  const address = verifier.publicKey.toBase58();
+
+  it('indexes attestations and revocations by agent', async () => {
+    const chain = new StubChain(verifier.publicKey);
+    const storage = new MemoryStorage();
+    chain.push('sig-1', attestationMemo('v1'));
+    chain.push('sig-2', {
+      type: 'poa-revoke', version: '1.0', sig: 'sig-1', reason: 'superseded', verifier: address, ts: 1767225600
+    });
+
+    const added = await syncAttestations(address, { storage, connection: chain.connection() });
+
+    expect(added).toBe(1);
+    expect(storage.getAttestationsByAgent(agent).map(a => a.verificationId)).toEqual(['v1']);
+    expect(storage.getRevocations('sig-1')[0]).toMatchObject({ reason: 'superseded', verifier: address });
+    expect(storage.getSyncCursor(address)?.lastSignature).toBe('sig-2');
+  });
+
+  it('resumes from the cursor and pages through new signatures', async () => {
+    const chain = new StubChain(verifier.publicKey);
+    const storage = new MemoryStorage();
+    chain.push('sig-1', attestationMemo('v1'));
+    await syncAttestations(address, { storage, connection: chain.connection() });
+
+    chain.fetched = [];
+    for (let i = 2; i <= 6; i++) {
+      chain.push(`sig-${i}`, attestationMemo(`v${i}`));
+    }
+
+    const added = await syncAttestations(address, { storage, connection: chain.connection(), pageSize: 2 });
+
+    expect(added).toBe(5);
+    expect(chain.fetched.sort()).toEqual(['sig-2', 'sig-3', 'sig-4', 'sig-5', 'sig-6']);
+    expect(storage.getSyncCursor(address)?.lastSignature).toBe('sig-6');
+    expect(storage.getAttestationsByAgent(agent)).toHaveLength(6);
+  });
+
+  it('lists batched attestations from the stored leaves', async () => {
+    const chain = new StubChain(verifier.publicKey);
+    const storage = new MemoryStorage();
+    const other = Keypair.generate().publicKey.toBase58();
+
+    const leaves = [agent, other].map((wallet, i) => buildAttestationLeaf(
+      { id: `v${i}`, agentName: `bot-${i}`, score: 80, checks: { liveness: true } }, wallet, 1767225600
+    ));
+    const { root, proofs } = buildMerkleTree(leaves.map(hashLeaf));
+    chain.push('batch-1', { type: 'poa-batch', version: '1.0', root, count: 2, verifier: address, ts: 1767225600 });
+
+    // As recorded when the batch was published; the second leaf carries the first one's proof
+    leaves.forEach((leaf, index) => storage.saveAttestation({
+      signature: 'batch-1',
+      agentId: leaf.name,
+      agentAddress: leaf.agent,
+      verificationId: leaf.vid,
+      inclusion: { signature: 'batch-1', root, index, leaf, proof: proofs[0] },
+      createdAt: new Date().toISOString()
+    }));
+
+    const attestations = await getAgentAttestations(agent, {
+      storage,
+      connection: chain.connection(),
+      verifiers: [address]
+    });
+
+    expect(attestations).toHaveLength(1);
+    expect(attestations[0]).toMatchObject({ signature: 'batch-1', verificationId: 'v0', slot: 1, verifier: address });
+    expect(attestations[0].memo.root).toBe(root);
+    expect(storage.getBatchLeaves('batch-1').find(leaf => leaf.verificationId === 'v1')?.slot).toBeUndefined();
+  });
+
+  it('ignores memos from other signers', async () => {
+    const chain = new StubChain(verifier.publicKey);
+    const storage = new MemoryStorage();
+    chain.push('sig-1', attestationMemo('v1'));
+
+    const other = Keypair.generate().publicKey.toBase58();
+    const added = await syncAttestations(other, { storage, connection: chain.connection() });
+
+    expect(added).toBe(0);
+    expect(storage.getAttestationsByAgent(agent)).toHaveLength(0);
+  });
+});
+
+describe('knownVerifierKeys', () => {
+  const env = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...env };
+    jest.restoreAllMocks();
+  });
+
+  it('reads the payer key file once per configuration', () => {
+    const keyPath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'poa-keys-')), 'payer.json');
+    fs.writeFileSync(keyPath, JSON.stringify(Array.from(verifier.secretKey)));
+    process.env.PAYER_KEYPAIR_PATH = keyPath;
+    delete process.env.PAYER_SECRET_KEY;
+    process.env.VERIFIER_PUBLIC_KEYS = 'remote-key';
+
+    const read = jest.spyOn(fs, 'readFileSync');
+    expect(Array.from(knownVerifierKeys()).sort())
+      .toEqual([verifier.publicKey.toBase58(), 'remote-key'].sort());
+    knownVerifierKeys();
+    expect(read).toHaveBeenCalledTimes(1);
+
+    process.env.VERIFIER_PUBLIC_KEYS = '';
+    expect(Array.from(knownVerifierKeys())).toEqual([verifier.publicKey.toBase58()]);
+
+    fs.rmSync(path.dirname(keyPath), { recursive: true });
+  });
+});
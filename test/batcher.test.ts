@@ -0,0 +1,89 @@
+import { Connection, Keypair } from '@solana/web3.js';
+import { AttestationSubject, BatchAttestationResult } from '../src/attestation';
+import { AttestationBatcher, BatcherHandlers } from '../src/batcher';
+import { KeypairSigner } from '../src/signer';
+import { MemoryStorage } from '../src/storage';
+import { StubChain } from './helpers/stubChain';
+
+const payer = Keypair.generate();
+const agent = Keypair.generate().publicKey.toBase58();
+
+function subject(id: string): AttestationSubject {
+  return {
+    id,
+    agentName: `bot-${id}`,
+    level: 'basic',
+    score: 80,
+    checks: { liveness: true },
+    expiresAt: '2026-03-01T00:00:00.000Z'
+  };
+}
+
+// RPC node that is down
+const unreachable = {
+  getLatestBlockhash: async () => {
+    throw new Error('RPC unavailable');
+  }
+} as unknown as Connection;
+
+describe('AttestationBatcher', () => {
+  const signer = new KeypairSigner(payer);
+  let published: BatchAttestationResult[];
+  let failures: number[];
+  let handlers: BatcherHandlers;
+
+  beforeEach(() => {
+    published = [];
+    failures = [];
+    handlers = {
+      onPublished: batch => published.push(batch),
+      onFailure: (_error, entries) => failures.push(entries.length)
+    };
+  });
+
+  it('keeps entries whose publish failed and publishes them after a restart', async () => {
+    const storage = new MemoryStorage();
+    const failing = new AttestationBatcher(storage, handlers, {
+      maxBatchSize: 10,
+      attestation: { signer, connection: unreachable }
+    });
+    failing.add(subject('v1'), agent);
+    failing.add(subject('v2'), agent);
+
+    expect(await failing.flush()).toBeNull();
+    expect(failures).toEqual([2]);
+    expect(failing.size).toBe(2);
+    expect(storage.listPendingAttestations().map(pending => pending.verificationId)).toEqual(['v1', 'v2']);
+
+    const chain = new StubChain(payer.publicKey);
+    const restarted = new AttestationBatcher(storage, handlers, {
+      maxBatchSize: 10,
+      attestation: { signer, connection: chain.connection() }
+    });
+    expect(restarted.resume()).toBe(2);
+
+    const batch = await restarted.flush();
+    expect(batch?.inclusions.map(inclusion => inclusion.leaf.vid)).toEqual(['v1', 'v2']);
+    expect(published).toEqual([batch]);
+    expect(restarted.size).toBe(0);
+    expect(storage.listPendingAttestations()).toEqual([]);
+  });
+
+  it('keeps entries added while a publish is failing', async () => {
+    const storage = new MemoryStorage();
+    const batcher = new AttestationBatcher(storage, handlers, {
+      maxBatchSize: 10,
+      attestation: { signer, connection: unreachable }
+    });
+    batcher.add(subject('v1'), agent);
+
+    const flushing = batcher.flush();
+    batcher.add(subject('v2'), agent);
+    expect(batcher.size).toBe(2);
+    await flushing;
+
+    expect(failures).toEqual([1]);
+    expect(batcher.size).toBe(2);
+    expect(storage.listPendingAttestations()).toHaveLength(2);
+  });
+});
@@ -0,0 +1,47 @@
+import path from 'path';
+import { ChallengeAssertion, ChallengeSuite, evaluateAssertion, loadChallengeSuites, validateSuite } from '../src/challenges';
+
+function suite(assertion: Partial<ChallengeAssertion>): ChallengeSuite {
+  return {
+    capability: 'test',
+    challenges: [{ id: 'c', path: '/q', assertions: [{ id: 'a', path: 'x', op: 'exists', ...assertion }] }]
+  };
+}
+
+describe('challenge suites', () => {
+  it('loads the bundled suites', () => {
+    expect(loadChallengeSuites(path.resolve(__dirname, '../challenges')).length).toBeGreaterThan(0);
+  });
+
+  it('accepts well-formed assertions', () => {
+    expect(validateSuite(suite({ op: 'within', value: { target: 0, tolerance: 0.5 } }))).toBeNull();
+    expect(validateSuite(suite({ op: 'between', value: [1, 2] }))).toBeNull();
+  });
+
+  it.each([
+    ['an unknown op', { op: 'approx' as any }],
+    ['within without a tolerance', { op: 'within', value: { target: 1 } }],
+    ['within with a zero tolerance', { op: 'within', value: { target: 1, tolerance: 0 } }],
+    ['between with one bound', { op: 'between', value: [1] }],
+    ['oneOf without options', { op: 'oneOf' }],
+    ['an invalid pattern', { op: 'matches', value: '(' }]
+  ] as [string, Partial<ChallengeAssertion>][])('rejects %s', (_name, assertion) => {
+    expect(validateSuite(suite(assertion))).not.toBeNull();
+  });
+});
+
+describe('within', () => {
+  const within = (value: number, target: number, tolerance: number) =>
+    evaluateAssertion({ x: value }, { id: 'a', path: 'x', op: 'within', value: { target, tolerance } });
+
+  it('uses a relative tolerance', () => {
+    expect(within(101, 100, 0.02)).toMatchObject({ passed: true, accuracy: 1 });
+    expect(within(110, 100, 0.02).accuracy).toBe(0);
+  });
+
+  it('uses an absolute tolerance around a zero target', () => {
+    expect(within(0.01, 0, 0.05)).toMatchObject({ passed: true, accuracy: 1 });
+    expect(within(0.1, 0, 0.05)).toMatchObject({ passed: false, accuracy: 0.5 });
+    expect(within(0, 0, 0.05).accuracy).toBe(1);
+  });
+});
@@ -0,0 +1,52 @@
+import http from 'http';
+import { generateKeyPairSync, sign } from 'crypto';
+import { AddressInfo } from 'net';
+import { PublicKey } from '@solana/web3.js';
+import app from '../src/index';
+import { PoAClient } from '../src/client';
+
+async function listen(server: http.Server): Promise<string> {
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+}
+
+function close(server: http.Server): Promise<void> {
+  return new Promise(resolve => server.close(() => resolve()));
+}
+
+describe('PoAClient against the server', () => {
+  let agent: http.Server;
+  let api: http.Server;
+  let endpoint: string;
+  let client: PoAClient;
+
+  beforeAll(async () => {
+    agent = http.createServer((_req, res) => {
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify({ status: 'ok' }));
+    });
+    endpoint = await listen(agent);
+    api = http.createServer(app);
+    client = new PoAClient({ baseUrl: await listen(api) });
+  });
+
+  afterAll(async () => {
+    await Promise.all([close(agent), close(api)]);
+  });
+
+  it('submits traces signed with the wallet given to verifyQuick', async () => {
+    const { publicKey, privateKey } = generateKeyPairSync('ed25519');
+    const walletAddress = new PublicKey(Buffer.from(publicKey.export({ format: 'jwk' }).x!, 'base64url')).toBase58();
+
+    const result = await client.verifyQuick({ agentId: 'wallet-bot', apiEndpoint: endpoint, walletAddress });
+    expect(result.success).toBe(true);
+
+    const trace = {
+      period: { start: '2026-02-01T00:00:00Z', end: '2026-02-08T00:00:00Z' },
+      summary: { totalActions: 10, successRate: 1, errorRate: 0 }
+    };
+    const submitted = await client.submitTrace('wallet-bot', trace, message => sign(null, message, privateKey));
+    expect(submitted.traceId).toMatch(/^trace-/);
+    expect((await client.getTraces('wallet-bot')).traces).toHaveLength(1);
+  });
+});
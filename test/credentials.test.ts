@@ -0,0 +1,71 @@
+import { createHash, generateKeyPairSync, sign } from 'crypto';
+import { buildDidDocument, didWebUrl, issueCredential, loadIssuerKey } from '../src/credentials';
+import { buildMerkleTree, hashLeaf, verifyInclusionProof } from '../src/merkle';
+import { canonicalize } from '../src/canonical';
+import { AttestationLeaf } from '../src/types';
+import { verifyCredential } from '../src/vc';
+
+const ISSUED = '2026-01-01T00:00:00.000Z';
+const EXPIRES = '2026-02-01T00:00:00.000Z';
+
+describe('credentials', () => {
+  process.env.CREDENTIAL_SIGNING_KEY = generateKeyPairSync('ed25519').privateKey
+    .export({ format: 'pem', type: 'pkcs8' }).toString();
+  const key = loadIssuerKey('did:web:example.com');
+  const issuer = buildDidDocument(key);
+  const subject = { id: 'urn:poa:agent:bot', verificationId: 'v1', score: 80 };
+  const jwt = issueCredential(key, 'urn:poa:verification:v1', subject, ISSUED, EXPIRES, 'https://example.com/api/credentials/v1/status');
+
+  it('verifies without Node crypto', () => {
+    const verification = verifyCredential(jwt, issuer, Date.parse('2026-01-15T00:00:00Z'));
+    expect(verification.valid).toBe(true);
+    expect(verification.payload?.exp).toBe(Date.parse(EXPIRES) / 1000);
+    expect(verification.payload?.vc.credentialStatus?.id).toBe('https://example.com/api/credentials/v1/status');
+  });
+
+  it('rejects expired and tampered credentials', () => {
+    expect(verifyCredential(jwt, issuer, Date.parse(EXPIRES)).reason).toBe('expired');
+
+    const [header, payload, signature] = jwt.split('.');
+    const claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+    claims.vc.credentialSubject.score = 100;
+    const tampered = `${header}.${Buffer.from(JSON.stringify(claims)).toString('base64url')}.${signature}`;
+    expect(verifyCredential(tampered, issuer, Date.parse(ISSUED)).reason).toBe('bad_signature');
+  });
+
+  it('rejects a credential without an expiry', () => {
+    const [header, payload] = jwt.split('.');
+    const claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+    delete claims.exp;
+    const input = `${header}.${Buffer.from(JSON.stringify(claims)).toString('base64url')}`;
+    const open = `${input}.${sign(null, Buffer.from(input), key.privateKey).toString('base64url')}`;
+
+    expect(verifyCredential(open, issuer, Date.parse(ISSUED)).reason).toBe('expired');
+  });
+
+  it('derives the status origin from did:web', () => {
+    expect(didWebUrl('did:web:example.com%3A8443:poa')).toBe('https://example.com:8443/poa');
+    expect(didWebUrl('did:key:z6Mk')).toBeUndefined();
+  });
+});
+
+describe('merkle', () => {
+  it('hashes leaves as before the move off Node crypto', () => {
+    const leaf = { vid: 'v1', agent: 'wallet', score: 80 };
+    const expected = createHash('sha256').update(Buffer.from([0])).update(canonicalize(leaf)).digest('hex');
+    expect(hashLeaf(leaf)).toBe(expected);
+  });
+
+  it('checks inclusion proofs and rejects malformed steps', () => {
+    const leaves: AttestationLeaf[] = [1, 2, 3].map(n => ({
+      vid: `v${n}`, agent: 'wallet', name: 'bot', level: 'basic', score: 80, checks: 'hash', ts: 1767225600
+    }));
+    const { root, proofs } = buildMerkleTree(leaves.map(hashLeaf));
+
+    expect(verifyInclusionProof({ root, index: 2, leaf: leaves[2], proof: proofs[2] })).toBe(true);
+    expect(verifyInclusionProof({ root, index: 2, leaf: leaves[1], proof: proofs[2] })).toBe(false);
+    expect(verifyInclusionProof({
+      root, index: 2, leaf: leaves[2], proof: [{ hash: 'not-hex', position: 'left' }]
+    })).toBe(false);
+  });
+});
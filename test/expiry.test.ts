@@ -0,0 +1,114 @@
+import { ReverificationScheduler, decayedScore, expiresAtFor, isExpired } from '../src/expiry';
+import { MemoryStorage, VerificationRecord } from '../src/storage';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = Date.parse('2026-03-01T00:00:00.000Z');
+
+function daysAgo(days: number): string {
+  return new Date(NOW - days * DAY_MS).toISOString();
+}
+
+function record(id: string, completedDaysAgo: number, overrides: Partial<VerificationRecord> = {}): VerificationRecord {
+  const completedAt = daysAgo(completedDaysAgo);
+  return {
+    id,
+    agentName: 'expiring-bot',
+    level: 'basic',
+    status: 'verified',
+    score: 80,
+    checks: { liveness: true },
+    createdAt: completedAt,
+    completedAt,
+    expiresAt: expiresAtFor('basic', completedAt),
+    ...overrides
+  };
+}
+
+describe('validity windows', () => {
+  it('keeps deeper verifications valid longer', () => {
+    const completedAt = '2026-02-01T00:00:00.000Z';
+    expect(expiresAtFor('basic', completedAt)).toBe('2026-02-08T00:00:00.000Z');
+    expect(expiresAtFor('standard', completedAt)).toBe('2026-03-03T00:00:00.000Z');
+    expect(expiresAtFor('comprehensive', completedAt)).toBe('2026-05-02T00:00:00.000Z');
+    expect(expiresAtFor(undefined, completedAt)).toBe('2026-02-08T00:00:00.000Z');
+  });
+
+  it('expires a result at its expiry time', () => {
+    const result = record('v1', 7);
+    expect(result.expiresAt).toBe(new Date(NOW).toISOString());
+    expect(isExpired(result, NOW - 1)).toBe(false);
+    expect(isExpired(result, NOW)).toBe(true);
+    expect(isExpired({ ...result, expiresAt: undefined }, NOW)).toBe(false);
+  });
+});
+
+describe('decayedScore', () => {
+  const options = { pointsPerDay: 2, graceDays: 7 };
+
+  it('keeps the full score through the grace period', () => {
+    expect(decayedScore(record('v1', 0), NOW, options)).toBe(80);
+    expect(decayedScore(record('v1', 7), NOW, options)).toBe(80);
+  });
+
+  it('loses pointsPerDay for each day after the grace period, down to zero', () => {
+    expect(decayedScore(record('v1', 8), NOW, options)).toBe(78);
+    expect(decayedScore(record('v1', 17.25), NOW, options)).toBe(60); // 10.25 days late, 59.5 rounds up
+    expect(decayedScore(record('v1', 100), NOW, options)).toBe(0);
+  });
+
+  it('does not decay when disabled or unfinished', () => {
+    expect(decayedScore(record('v1', 30), NOW, { pointsPerDay: 0, graceDays: 7 })).toBe(80);
+    expect(decayedScore(record('v1', 30, { completedAt: undefined }), NOW, options)).toBe(80);
+  });
+});
+
+describe('ReverificationScheduler.tick', () => {
+  let storage: MemoryStorage;
+  let reverified: string[];
+  let scheduler: ReverificationScheduler;
+
+  beforeEach(() => {
+    storage = new MemoryStorage();
+    reverified = [];
+    scheduler = new ReverificationScheduler(storage, result => {
+      reverified.push(result.id);
+      return `re-${result.id}`;
+    }, { intervalMs: 60000, leadTimeMs: DAY_MS });
+  });
+
+  it('re-verifies results that expire within the lead time, once', () => {
+    storage.saveVerification(record('due', 6.5)); // expires in 12 hours
+    storage.saveVerification(record('later', 5, { agentName: 'fresh-bot' })); // expires in 2 days
+
+    expect(scheduler.tick(NOW)).toEqual(['re-due']);
+    expect(storage.getVerification('due')!.reverificationId).toBe('re-due');
+    expect(scheduler.tick(NOW)).toEqual([]);
+
+    expect(scheduler.tick(NOW + DAY_MS)).toEqual(['re-later']);
+    expect(reverified).toEqual(['due', 'later']);
+  });
+
+  it('skips results superseded by a newer run', () => {
+    storage.saveVerification(record('old', 7));
+    storage.saveVerification(record('running', 0, { status: 'testing', createdAt: daysAgo(0.01) }));
+    storage.saveVerification(record('other', 7, { agentName: 'other-bot' }));
+
+    expect(scheduler.tick(NOW)).toEqual(['re-other']);
+  });
+
+  it('still re-verifies when the newer run failed or was cancelled', () => {
+    storage.saveVerification(record('old', 7));
+    storage.saveVerification(record('failed', 0, { status: 'failed', createdAt: daysAgo(0.02) }));
+    storage.saveVerification(record('cancelled', 0, { status: 'cancelled', createdAt: daysAgo(0.01) }));
+
+    expect(scheduler.tick(NOW)).toEqual(['re-old']);
+  });
+
+  it('leaves a result due when reverify declines it', () => {
+    const declining = new ReverificationScheduler(storage, () => null, { leadTimeMs: DAY_MS });
+    storage.saveVerification(record('due', 7));
+
+    expect(declining.tick(NOW)).toEqual([]);
+    expect(storage.getVerification('due')!.reverificationId).toBeUndefined();
+  });
+});
@@ -0,0 +1,94 @@
+import {
+  Connection,
+  PublicKey,
+  Transaction,
+  TransactionInstruction,
+  VersionedTransactionResponse
+} from '@solana/web3.js';
+import { AttestationMemo } from '../../src/attestation';
+import { encodeBase58 } from '../../src/signer';
+
+const MEMO_PROGRAM_ID = new PublicKey('MemoSq4gqABAXKb96qnH8TysNcWxMyWCqXgDLGmfcHr');
+const BLOCKHASH = '11111111111111111111111111111111';
+
+function confirmed(transaction: Transaction, slot: number): VersionedTransactionResponse {
+  return {
+    slot,
+    blockTime: 1767225600 + slot,
+    transaction: { message: transaction.compileMessage(), signatures: [] },
+    meta: { err: null }
+  } as unknown as VersionedTransactionResponse;
+}
+
+export function memoTransaction(memo: AttestationMemo, feePayer: PublicKey, slot: number): VersionedTransactionResponse {
+  const transaction = new Transaction().add(new TransactionInstruction({
+    keys: [],
+    programId: MEMO_PROGRAM_ID,
+    data: Buffer.from(JSON.stringify(memo))
+  }));
+  transaction.feePayer = feePayer;
+  transaction.recentBlockhash = BLOCKHASH;
+  return confirmed(transaction, slot);
+}
+
+/**
+ * Chain stub serving a verifier's history newest first, recording which
+ * signatures were fetched. Transactions sent through it are confirmed at once.
+ */
+export class StubChain {
+  history: { signature: string; tx: VersionedTransactionResponse }[] = [];
+  fetched: string[] = [];
+  private feePayer: PublicKey;
+
+  constructor(feePayer: PublicKey) {
+    this.feePayer = feePayer;
+  }
+
+  push(signature: string, memo: AttestationMemo): void {
+    this.history.unshift({ signature, tx: memoTransaction(memo, this.feePayer, this.history.length + 1) });
+  }
+
+  connection(): Connection {
+    return {
+      getLatestBlockhash: async () => ({ blockhash: BLOCKHASH, lastValidBlockHeight: 1 }),
+      sendRawTransaction: async (raw: Buffer) => {
+        const transaction = Transaction.from(raw);
+        const signature = encodeBase58(transaction.signature!);
+        this.history.unshift({ signature, tx: confirmed(transaction, this.history.length + 1) });
+        return signature;
+      },
+      confirmTransaction: async () => ({ context: { slot: this.history.length }, value: { err: null } }),
+      getTransaction: async (signature: string) => {
+        this.fetched.push(signature);
+        return this.history.find(entry => entry.signature === signature)?.tx ?? null;
+      },
+      getSignaturesForAddress: async (_address: PublicKey, options: { before?: string; until?: string; limit: number }) => {
+        let page = this.history.map(entry => ({ signature: entry.signature, err: null }));
+        if (options.before) {
+          page = page.slice(page.findIndex(info => info.signature === options.before) + 1);
+        }
+        if (options.until) {
+          const stop = page.findIndex(info => info.signature === options.until);
+          page = stop >= 0 ? page.slice(0, stop) : page;
+        }
+        return page.slice(0, options.limit);
+      },
+      getTransactions: async (signatures: string[]) => {
+        this.fetched.push(...signatures);
+        return signatures.map(signature => this.history.find(entry => entry.signature === signature)?.tx ?? null);
+      }
+    } as unknown as Connection;
+  }
+
+  /**
+   * Serve every Connection, including the ones the server creates itself,
+   * from this chain until the returned function is called
+   */
+  install(): () => void {
+    const stub = this.connection() as unknown as Record<string, (...args: any[]) => any>;
+    const spies = Object.keys(stub).map(method =>
+      jest.spyOn(Connection.prototype as any, method).mockImplementation((...args: any[]) => stub[method](...args))
+    );
+    return () => spies.forEach(spy => spy.mockRestore());
+  }
+}
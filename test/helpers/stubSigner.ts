@@ -0,0 +1,66 @@
+import http from 'http';
+import { createPrivateKey, sign } from 'crypto';
+import { AddressInfo } from 'net';
+import { Keypair } from '@solana/web3.js';
+
+export interface StubSigner {
+  url: string;
+  keypair: Keypair;
+  requests: number; // /sign calls served
+  close(): Promise<void>;
+}
+
+/**
+ * Remote signing service for tests, speaking the RemoteSigner protocol.
+ * With corrupt set it returns a signature over the wrong bytes.
+ */
+export async function startStubSigner(
+  options: { token?: string; corrupt?: boolean } = {}
+): Promise<StubSigner> {
+  const keypair = Keypair.generate();
+  const privateKey = createPrivateKey({
+    key: {
+      kty: 'OKP',
+      crv: 'Ed25519',
+      d: Buffer.from(keypair.secretKey.slice(0, 32)).toString('base64url'),
+      x: keypair.publicKey.toBuffer().toString('base64url')
+    },
+    format: 'jwk'
+  });
+
+  const stub = { keypair, requests: 0 } as StubSigner;
+
+  const server = http.createServer((req, res) => {
+    const reply = (status: number, body: object) => {
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(body));
+    };
+
+    if (options.token && req.headers.authorization !== `Bearer ${options.token}`) {
+      return reply(401, { error: 'Unauthorized' });
+    }
+
+    if (req.method === 'GET' && req.url === '/public-key') {
+      return reply(200, { publicKey: keypair.publicKey.toBase58() });
+    }
+
+    if (req.method === 'POST' && req.url === '/sign') {
+      let raw = '';
+      req.on('data', chunk => { raw += chunk; });
+      req.on('end', () => {
+        stub.requests++;
+        const message = Buffer.from(JSON.parse(raw).message, 'base64');
+        const signed = options.corrupt ? Buffer.concat([message, Buffer.from([0])]) : message;
+        reply(200, { signature: sign(null, signed, privateKey).toString('base64') });
+      });
+      return;
+    }
+
+    reply(404, { error: 'Not found' });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  stub.url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  stub.close = () => new Promise<void>(resolve => server.close(() => resolve()));
+  return stub;
+}
@@ -0,0 +1,81 @@
+import { buildHistory, diffRuns } from '../src/history';
+import { VerificationRecord } from '../src/storage';
+
+function run(id: string, overrides: Partial<VerificationRecord> = {}): VerificationRecord {
+  return {
+    id,
+    agentName: 'history-bot',
+    level: 'standard',
+    status: 'verified',
+    score: 80,
+    tier: 'excellent',
+    checks: {},
+    createdAt: `2026-02-0${id.slice(1)}T00:00:00.000Z`,
+    completedAt: `2026-02-0${id.slice(1)}T00:01:00.000Z`,
+    ...overrides
+  };
+}
+
+describe('diffRuns', () => {
+  it('reports added, removed and changed checks', () => {
+    const from = run('v1', { checks: { liveness: true, responseTime: true, errorHandling: false, capability_trading: true } });
+    const to = run('v2', { checks: { liveness: true, responseTime: false, errorHandling: true, loadProfile: false } });
+
+    expect(diffRuns(from, to)).toMatchObject({
+      from: 'v1',
+      to: 'v2',
+      newlyFailing: ['responseTime'],
+      newlyPassing: ['errorHandling'],
+      addedChecks: ['loadProfile'],
+      removedChecks: ['capability_trading'],
+      regression: true,
+      regressions: ['Newly failing: responseTime']
+    });
+  });
+
+  it('does not count an added failing check as a regression', () => {
+    const diff = diffRuns(run('v1', { checks: { liveness: true } }), run('v2', { checks: { liveness: true, loadProfile: false } }));
+
+    expect(diff).toMatchObject({ newlyFailing: [], addedChecks: ['loadProfile'], removedChecks: [], regression: false });
+  });
+
+  it('flags score and tier drops', () => {
+    const diff = diffRuns(run('v1', { score: 82 }), run('v2', { score: 77, tier: 'good' }));
+
+    expect(diff).toMatchObject({ scoreDelta: -5, tierChanged: true });
+    expect(diff.regressions).toEqual(['Score dropped 5 points', 'Tier dropped from excellent to good']);
+    expect(diffRuns(run('v1', { score: 82 }), run('v2', { score: 78 })).regression).toBe(false);
+  });
+
+  it('flags checks that became slower by both the relative and absolute thresholds', () => {
+    const diff = diffRuns(
+      run('v1', { timings: { liveness: 100, responseTime: 400, errorHandling: 20, capability_trading: 300 } }),
+      run('v2', { timings: { liveness: 250, responseTime: 550, errorHandling: 90, loadProfile: 900 } })
+    );
+
+    expect(diff.latency).toEqual({
+      liveness: { from: 100, to: 250, delta: 150 },
+      responseTime: { from: 400, to: 550, delta: 150 }, // +37.5%
+      errorHandling: { from: 20, to: 90, delta: 70 } // under 100ms
+    });
+    expect(diff.regressions).toEqual(['Slower: liveness']);
+  });
+});
+
+describe('buildHistory', () => {
+  it('flags each completed run against the previous completed one', () => {
+    const history = buildHistory([
+      run('v1', { checks: { liveness: true, responseTime: true } }),
+      run('v2', { status: 'cancelled', completedAt: undefined, checks: {} }),
+      run('v3', { status: 'failed', score: 40, tier: 'fair', checks: { liveness: true, responseTime: false } }),
+      run('v4', { score: 80, checks: { liveness: true, responseTime: true } })
+    ]);
+
+    expect(history.map(({ id, regression, passed, total }) => ({ id, regression, passed, total }))).toEqual([
+      { id: 'v1', regression: undefined, passed: 2, total: 2 },
+      { id: 'v2', regression: undefined, passed: 0, total: 0 },
+      { id: 'v3', regression: true, passed: 1, total: 2 },
+      { id: 'v4', regression: false, passed: 2, total: 2 }
+    ]);
+  });
+});
@@ -0,0 +1,63 @@
+import { Field } from '@noble/curves/abstract/modular';
+import { grainGenConstants } from '@noble/curves/abstract/poseidon';
+import { F1Field, Poseidon2, getPoseidon2Params } from 'poseidon2';
+import { Poseidon2Goldilocks12 } from 'poseidon2/goldilocks-12';
+import { P } from '../src/field';
+import { generateRoundConstants, poseidon2Hash, poseidon2Permute } from '../src/poseidon2';
+
+const M31_BIG = BigInt(P);
+
+// 1 * 1^T + diag(V): V = -2, then 2^0 … 2^8, 2^10, 2^12 … 2^16
+const INTERNAL_DIAGONAL = [P - 2, ...[0, 1, 2, 3, 4, 5, 6, 7, 8, 10, 12, 13, 14, 15, 16].map(shift => 2 ** shift)];
+
+describe('Poseidon2 round constants', () => {
+  it.each([[16, 8, 14], [3, 8, 57], [24, 8, 22]])('match @noble/curves Grain for width %i', (t, roundsFull, roundsPartial) => {
+    const { roundConstants } = grainGenConstants({ Fp: Field(M31_BIG), t, roundsFull, roundsPartial });
+    expect(generateRoundConstants(t, roundsFull, roundsPartial)).toEqual(roundConstants.map(row => row.map(Number)));
+  });
+});
+
+describe('Poseidon2 permutation', () => {
+  // The poseidon2 package ports the HorizenLabs reference implementation
+  const reference = new Poseidon2(
+    getPoseidon2Params(
+      16,
+      5,
+      8,
+      14,
+      INTERNAL_DIAGONAL.map(BigInt),
+      [],
+      generateRoundConstants().map(row => row.map(BigInt))
+    ),
+    new F1Field(M31_BIG)
+  );
+
+  it('reference port reproduces the HorizenLabs Goldilocks width-12 vector', () => {
+    expect(Poseidon2Goldilocks12.permute(new Array(12).fill(0n))).toEqual([
+      2706484646582314364n, 16460758560799937193n, 2052063466144512209n, 9649607828149110866n,
+      2033662915869228037n, 16251664193980936151n, 1869425810546879860n, 399174958178618195n,
+      963282781129924902n, 348076645890865798n, 8513101393627905513n, 13429406292428034341n
+    ]);
+  });
+
+  it.each([
+    ['zeros', new Array(16).fill(0)],
+    ['0..15', Array.from({ length: 16 }, (_, i) => i)],
+    ['p - 1', new Array(16).fill(P - 1)],
+    ['mixed', [894848333, 1437655012, 1200606629, 1690012884, 71131202, 1749206695, 1717947831, 120589055,
+               19776022, 42382981, 1831865506, 724844064, 171220207, 1299207443, 227047920, 1783754913]]
+  ])('matches the reference implementation on %s', (_, input) => {
+    const expected = reference.permute(input.map(BigInt)).map(Number);
+    expect(poseidon2Permute(input)).toEqual(expected);
+  });
+
+  it('keeps its known-answer vectors', () => {
+    expect(poseidon2Permute(Array.from({ length: 16 }, (_, i) => i))).toEqual([
+      112229617, 1135371432, 866740888, 1726774677, 1636727518, 1731266843, 924832308, 1440455566,
+      1705057652, 298981766, 2014874735, 2006054252, 1756498132, 86248856, 1886252471, 525037422
+    ]);
+    expect(poseidon2Hash([1, 2, 3])).toEqual([
+      1131161421, 223263146, 1058221696, 999778915, 358965744, 262684110, 1124624672, 1803251578
+    ]);
+  });
+});
@@ -0,0 +1,67 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { Sample, percentile, profileEndpoint, summarize } from '../src/profiler';
+
+describe('latency statistics', () => {
+  it('takes nearest-rank percentiles', () => {
+    const sorted = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10];
+    expect(percentile(sorted, 50)).toBe(5);
+    expect(percentile(sorted, 95)).toBe(10);
+    expect(percentile(sorted, 10)).toBe(1);
+    expect(percentile(Array.from({ length: 20 }, (_, i) => i + 1), 95)).toBe(19);
+    expect(percentile([], 99)).toBe(0);
+  });
+
+  it('leaves throttled requests out of the error rate and percentiles', () => {
+    const samples: Sample[] = [
+      ...[400, 100, 800, 200, 700, 300, 600, 500].map(latency => ({ latency, ok: true, throttled: false })),
+      { latency: 5, ok: false, throttled: false },
+      { latency: 1, ok: false, throttled: true }
+    ];
+
+    expect(summarize(samples)).toEqual({
+      requests: 10,
+      errors: 1,
+      throttled: 1,
+      errorRate: 0.111, // 1 of the 9 requests that weren't throttled
+      p50: 400,
+      p95: 800,
+      p99: 800,
+      min: 100,
+      max: 800,
+      mean: 450
+    });
+  });
+});
+
+describe('profileEndpoint', () => {
+  let server: http.Server;
+  let endpoint: string;
+
+  beforeAll(async () => {
+    server = http.createServer((_req, res) => {
+      setTimeout(() => res.end('{}'), 300);
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    endpoint = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('stays within its time budget', async () => {
+    const started = Date.now();
+    const profile = await profileEndpoint(endpoint, {
+      sequentialRequests: 10,
+      concurrentRequests: 20,
+      concurrency: 2,
+      timeout: 10000,
+      budgetMs: 1000
+    });
+
+    expect(Date.now() - started).toBeLessThan(1500);
+    expect(profile.sequential.requests).toBe(2); // the sequential phase gets half
+    expect(profile.concurrent.requests).toBeLessThan(20);
+  });
+});
@@ -0,0 +1,155 @@
+import http from 'http';
+import axios from 'axios';
+import { AddressInfo } from 'net';
+import app from '../src/index';
+import { PoAClient, VerificationProgressEvent } from '../src/client';
+import { ProgressEvent, ProgressHub } from '../src/progress';
+
+async function listen(server: http.Server): Promise<string> {
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+}
+
+function close(server: http.Server): Promise<void> {
+  return new Promise(resolve => server.close(() => resolve()));
+}
+
+async function collect(stream: AsyncGenerator<VerificationProgressEvent>): Promise<VerificationProgressEvent[]> {
+  const events: VerificationProgressEvent[] = [];
+  for await (const event of stream) events.push(event);
+  return events;
+}
+
+// Split "event: <type>\ndata: <json>\n\n" frames and check each one's name matches its payload
+function parseFrames(body: string): ProgressEvent[] {
+  expect(body.endsWith('\n\n')).toBe(true);
+  return body.slice(0, -2).split('\n\n').map(frame => {
+    const [eventLine, dataLine, ...rest] = frame.split('\n');
+    expect(rest).toEqual([]);
+    const event: ProgressEvent = JSON.parse(dataLine.replace(/^data: /, ''));
+    expect(eventLine).toBe(`event: ${event.type}`);
+    return event;
+  });
+}
+
+describe('ProgressHub', () => {
+  it('replays earlier events to late subscribers, then follows new ones', () => {
+    const hub = new ProgressHub();
+    hub.publish({ type: 'status', verificationId: 'v1', status: 'testing' });
+    hub.publish({ type: 'status', verificationId: 'v2', status: 'testing' });
+
+    const seen: string[] = [];
+    const unsubscribe = hub.subscribe('v1', event => seen.push(`${event.type}:${event.check ?? event.status}`));
+    hub.publish({ type: 'check.started', verificationId: 'v1', check: 'liveness' });
+    unsubscribe();
+    hub.publish({ type: 'check.finished', verificationId: 'v1', check: 'liveness', success: true });
+
+    expect(seen).toEqual(['status:testing', 'check.started:liveness']);
+  });
+});
+
+describe('PoAClient.streamStatus', () => {
+  let server: http.Server;
+  let client: PoAClient;
+  let frames: string[];
+
+  beforeAll(async () => {
+    // Writes each frame as its own chunk and leaves the connection open
+    server = http.createServer((_req, res) => {
+      res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+      const pending = [...frames];
+      const next = () => {
+        const frame = pending.shift();
+        if (frame === undefined || res.destroyed) return;
+        res.write(frame);
+        setTimeout(next, 5);
+      };
+      next();
+    });
+    client = new PoAClient({ baseUrl: await listen(server) });
+  });
+
+  afterAll(async () => {
+    server.closeAllConnections();
+    await close(server);
+  });
+
+  const event = (type: string, extra: object = {}) => JSON.stringify({ type, verificationId: 'v1', at: '2026-02-01T00:00:00Z', ...extra });
+
+  it('skips keepalives, joins frames split across chunks and ends on the result', async () => {
+    const started = event('check.started', { check: 'liveness' });
+    frames = [
+      ': keepalive\n\n',
+      `event: status\ndata: ${event('status', { status: 'testing' })}\n\n`,
+      `event: check.started\nda`,
+      `ta: ${started}\n\n: keepalive\n\n`,
+      `event: result\ndata: ${event('result', { status: 'verified', result: { score: 80 } })}\n\nevent: status\ndata: ${event('status')}\n\n`,
+      `event: status\ndata: ${event('status', { status: 'late' })}\n\n`
+    ];
+
+    const events = await collect(client.streamStatus('v1'));
+    expect(events.map(e => e.type)).toEqual(['status', 'check.started', 'result']);
+    expect(events[1]).toEqual(JSON.parse(started));
+    expect(events[2].result.score).toBe(80);
+  });
+
+  it('joins multi-line data fields', async () => {
+    frames = [`event: result\ndata: {"type":"result",\ndata: "verificationId":"v1"}\n\n`];
+    expect(await collect(client.streamStatus('v1'))).toEqual([{ type: 'result', verificationId: 'v1' }]);
+  });
+});
+
+describe('GET /api/status/:id/stream', () => {
+  let agent: http.Server;
+  let api: http.Server;
+  let baseUrl: string;
+  let endpoint: string;
+
+  beforeAll(async () => {
+    // Slow enough that the stream opens while checks are running
+    agent = http.createServer((_req, res) => {
+      setTimeout(() => {
+        res.setHeader('Content-Type', 'application/json');
+        res.end(JSON.stringify({ status: 'ok' }));
+      }, 100);
+    });
+    endpoint = await listen(agent);
+    api = http.createServer(app);
+    baseUrl = await listen(api);
+  });
+
+  afterAll(async () => {
+    await Promise.all([close(agent), close(api)]);
+  });
+
+  function readStream(id: string): Promise<string> {
+    return new Promise((resolve, reject) => {
+      http.get(`${baseUrl}/api/status/${id}/stream`, res => {
+        expect(res.headers['content-type']).toMatch(/^text\/event-stream/);
+        let body = '';
+        res.on('data', chunk => { body += chunk; });
+        res.on('end', () => resolve(body));
+      }).on('error', reject);
+    });
+  }
+
+  it('streams check progress as named events and closes after the result', async () => {
+    const { data } = await axios.post(`${baseUrl}/api/verify`, { agentName: 'stream-bot', apiEndpoint: endpoint });
+    const events = parseFrames(await readStream(data.verificationId));
+
+    expect(events.every(event => event.verificationId === data.verificationId)).toBe(true);
+    expect(events[0].type).toBe('status');
+    expect(events.map(event => event.type)).toContain('check.started');
+    expect(events.map(event => event.type)).toContain('check.finished');
+    expect(events.filter(event => event.type === 'result')).toHaveLength(1);
+    expect(events[events.length - 1]).toMatchObject({ type: 'result', status: 'verified' });
+  });
+
+  it('sends only the result for a finished verification', async () => {
+    const { data } = await axios.post(`${baseUrl}/api/verify/quick`, { agentId: 'finished-bot', apiEndpoint: endpoint });
+    const events = parseFrames(await readStream(data.verificationId));
+
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({ type: 'result', status: 'verified', result: { id: data.verificationId } });
+  });
+});
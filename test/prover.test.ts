@@ -0,0 +1,70 @@
+import { ProofError, ProofWorkers, ProverBusyError } from '../src/prover';
+import { RateLimiter } from '../src/ratelimit';
+import { agentIdToFieldElement } from '../src/stark';
+
+const VERIFIED_AT = 1767225600;
+
+function thresholdRequest(score: number) {
+  return {
+    kind: 'threshold' as const,
+    inputs: { score, threshold: 60, timestamp: VERIFIED_AT, now: VERIFIED_AT + 60, agentIdHash: agentIdToFieldElement('bot') }
+  };
+}
+
+describe('ProofWorkers', () => {
+  it('proves on a worker and reports the verifier result', async () => {
+    const { proof, valid } = await new ProofWorkers().prove(thresholdRequest(72));
+
+    expect(valid).toBe(true);
+    expect(proof.publicInputs).toMatchObject({ threshold: 60, provedAt: VERIFIED_AT + 60 });
+  });
+
+  it('reports statements that cannot be proven', async () => {
+    await expect(new ProofWorkers().prove(thresholdRequest(40))).rejects.toThrow(ProofError);
+  });
+
+  it('reports other failures as plain errors', async () => {
+    const { agentIdHash, ...inputs } = thresholdRequest(72).inputs;
+    const failed = new ProofWorkers().prove({ kind: 'threshold', inputs: inputs as any });
+
+    await expect(failed).rejects.toThrow(Error);
+    await expect(failed).rejects.not.toThrow(ProofError);
+  });
+
+  it('keeps its workers for later proofs', async () => {
+    const workers = new ProofWorkers({ concurrency: 2 });
+    expect(workers.stats().idleWorkers).toBe(0);
+
+    await expect(workers.prove(thresholdRequest(40))).rejects.toThrow(ProofError);
+    expect(workers.stats()).toMatchObject({ running: 0, idleWorkers: 1 });
+
+    // The same worker, even after a failed proof
+    expect((await workers.prove(thresholdRequest(72))).valid).toBe(true);
+    expect(workers.stats()).toMatchObject({ running: 0, idleWorkers: 1 });
+
+    const both = [workers.prove(thresholdRequest(40)), workers.prove(thresholdRequest(50))];
+    expect(workers.stats().running).toBe(2);
+    await Promise.allSettled(both);
+    expect(workers.stats()).toMatchObject({ running: 0, idleWorkers: 2 });
+  });
+
+  it('refuses requests beyond the queue', async () => {
+    const workers = new ProofWorkers({ concurrency: 1, maxQueued: 0 });
+    const first = workers.prove(thresholdRequest(40));
+
+    await expect(workers.prove(thresholdRequest(40))).rejects.toThrow(ProverBusyError);
+    await expect(first).rejects.toThrow(ProofError);
+  });
+});
+
+describe('RateLimiter', () => {
+  it('limits each key per window', () => {
+    const limiter = new RateLimiter({ limit: 2, windowMs: 1000 });
+
+    expect(limiter.take('a', 0)).toBe(0);
+    expect(limiter.take('a', 100)).toBe(0);
+    expect(limiter.take('a', 400)).toBe(600);
+    expect(limiter.take('b', 400)).toBe(0);
+    expect(limiter.take('a', 1000)).toBe(0);
+  });
+});
@@ -0,0 +1,224 @@
+import http from 'http';
+import axios from 'axios';
+import { AddressInfo } from 'net';
+import { Connection, Keypair } from '@solana/web3.js';
+import { QueueHandlers, TransientError, VerificationQueue } from '../src/queue';
+import { MemoryStorage, VerificationJob } from '../src/storage';
+import { StubChain } from './helpers/stubChain';
+
+async function until(condition: () => boolean, timeoutMs = 2000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error('Timed out waiting for condition');
+    await new Promise(resolve => setTimeout(resolve, 5));
+  }
+}
+
+function job(id: string, endpoint = `https://${id}.example.com`) {
+  return { id, endpoint, capabilities: [], level: 'basic' };
+}
+
+describe('VerificationQueue', () => {
+  let storage: MemoryStorage;
+  let failures: string[];
+
+  beforeEach(() => {
+    storage = new MemoryStorage();
+    failures = [];
+  });
+
+  function queueWith(run: QueueHandlers['run'], options = {}) {
+    return new VerificationQueue(storage, {
+      run,
+      onFailure: (failed, error) => failures.push(`${failed.id}: ${error.message}`)
+    }, { concurrency: 2, perEndpointConcurrency: 1, maxAttempts: 3, backoffMs: 40, ...options });
+  }
+
+  it('retries transient failures with exponential backoff', async () => {
+    const startedAt: number[] = [];
+    const queue = queueWith(async () => {
+      startedAt.push(Date.now());
+      if (startedAt.length < 3) throw new TransientError('agent unreachable');
+    });
+
+    queue.enqueue(job('v1'));
+    await until(() => storage.getJob('v1')!.status === 'completed');
+
+    expect(storage.getJob('v1')).toMatchObject({ attempts: 3, lastError: undefined });
+    expect(startedAt[1] - startedAt[0]).toBeGreaterThanOrEqual(40);
+    expect(startedAt[2] - startedAt[1]).toBeGreaterThanOrEqual(80);
+    expect(failures).toEqual([]);
+  });
+
+  it('fails a job once its attempts run out', async () => {
+    const queue = queueWith(async () => {
+      throw new TransientError('agent unreachable');
+    }, { maxAttempts: 2, backoffMs: 1 });
+
+    queue.enqueue(job('v1'));
+    await until(() => storage.getJob('v1')!.status === 'failed');
+
+    expect(storage.getJob('v1')).toMatchObject({ attempts: 2, lastError: 'agent unreachable' });
+    expect(failures).toEqual(['v1: agent unreachable']);
+  });
+
+  it('does not retry other errors', async () => {
+    const queue = queueWith(async () => {
+      throw new Error('bad capability suite');
+    });
+
+    queue.enqueue(job('v1'));
+    await until(() => storage.getJob('v1')!.status === 'failed');
+
+    expect(storage.getJob('v1')!.attempts).toBe(1);
+    expect(failures).toEqual(['v1: bad capability suite']);
+  });
+
+  it('runs one job per endpoint at a time', async () => {
+    let release!: () => void;
+    const blocked = new Promise<void>(resolve => { release = resolve; });
+    const queue = queueWith(() => blocked);
+
+    queue.enqueue(job('v1', 'https://agent.example.com/a'));
+    queue.enqueue(job('v2', 'https://AGENT.example.com/b'));
+    queue.enqueue(job('v3'));
+
+    expect(storage.getJob('v1')!.status).toBe('running');
+    expect(storage.getJob('v2')!.status).toBe('queued');
+    expect(storage.getJob('v3')!.status).toBe('running');
+
+    release();
+    await until(() => storage.listJobs(['completed']).length === 3);
+  });
+
+  it('cancels queued jobs before they start', async () => {
+    const ran: string[] = [];
+    let release!: () => void;
+    const blocked = new Promise<void>(resolve => { release = resolve; });
+    const queue = queueWith(async running => {
+      ran.push(running.id);
+      await blocked;
+    }, { concurrency: 1 });
+
+    queue.enqueue(job('v1'));
+    queue.enqueue(job('v2'));
+    expect(queue.cancel('v2')).toBe(true);
+    expect(queue.cancel('v2')).toBe(false);
+
+    release();
+    await until(() => storage.getJob('v1')!.status === 'completed');
+    expect(ran).toEqual(['v1']);
+    expect(storage.getJob('v2')!.status).toBe('cancelled');
+  });
+
+  it('discards the outcome of a job cancelled while running', async () => {
+    let observed: boolean | undefined;
+    let release!: () => void;
+    const blocked = new Promise<void>(resolve => { release = resolve; });
+    const queue = queueWith(async (_job, isCancelled) => {
+      await blocked;
+      observed = isCancelled();
+      throw new TransientError('agent unreachable');
+    });
+
+    queue.enqueue(job('v1'));
+    expect(queue.cancel('v1')).toBe(true);
+    release();
+    await until(() => observed !== undefined);
+    await new Promise(resolve => setTimeout(resolve, 60));
+
+    expect(observed).toBe(true);
+    expect(storage.getJob('v1')).toMatchObject({ status: 'cancelled', attempts: 1 });
+    expect(failures).toEqual([]);
+  });
+
+  it('requeues jobs left queued or running by a previous process', async () => {
+    const now = new Date().toISOString();
+    const orphan = (id: string, status: VerificationJob['status']): VerificationJob => ({
+      ...job(id), status, attempts: 1, createdAt: now, updatedAt: now
+    });
+    storage.saveJob(orphan('v1', 'running'));
+    storage.saveJob({ ...orphan('v2', 'queued'), nextAttemptAt: new Date(Date.now() + 60000).toISOString() });
+    storage.saveJob(orphan('v3', 'completed'));
+
+    const ran: string[] = [];
+    const queue = queueWith(async running => {
+      ran.push(running.id);
+    });
+    expect(queue.resume()).toBe(2);
+
+    await until(() => storage.listJobs(['completed']).length === 3);
+    expect(ran.sort()).toEqual(['v1', 'v2']);
+    expect(storage.getJob('v1')!.attempts).toBe(2);
+  });
+});
+
+describe('cancelling through the API', () => {
+  const payer = Keypair.generate();
+  const chain = new StubChain(payer.publicKey);
+  let uninstall: () => void;
+  let agent: http.Server;
+  let api: http.Server;
+  let baseUrl: string;
+  let endpoint: string;
+
+  async function listen(server: http.Server): Promise<string> {
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  }
+
+  async function status(id: string) {
+    return (await axios.get(`${baseUrl}/api/status/${id}`)).data;
+  }
+
+  beforeAll(async () => {
+    process.env.PAYER_SECRET_KEY = JSON.stringify(Array.from(payer.secretKey));
+    uninstall = chain.install();
+    const { default: app } = await import('../src/index');
+
+    agent = http.createServer((_req, res) => {
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify({ status: 'ok' }));
+    });
+    endpoint = await listen(agent);
+    api = http.createServer(app);
+    baseUrl = await listen(api);
+  });
+
+  afterAll(async () => {
+    uninstall();
+    await Promise.all([agent, api].map(server => new Promise(resolve => server.close(resolve))));
+  });
+
+  it('refuses to cancel a result whose attestation is being published', async () => {
+    // Hold the attestation transaction until the cancel request is answered
+    let release!: () => void;
+    const held = new Promise<void>(resolve => { release = resolve; });
+    jest.spyOn(Connection.prototype as any, 'sendRawTransaction').mockImplementationOnce(async (raw: any) => {
+      await held;
+      return chain.connection().sendRawTransaction(raw);
+    });
+
+    const { data } = await axios.post(`${baseUrl}/api/verify`, {
+      agentName: 'publishing-bot',
+      apiEndpoint: endpoint,
+      walletAddress: Keypair.generate().publicKey.toBase58()
+    });
+    const id = data.verificationId;
+    for (let attempt = 0; (await status(id)).status !== 'verified' && attempt < 50; attempt++) {
+      await new Promise(resolve => setTimeout(resolve, 100));
+    }
+
+    const cancel = await axios.post(`${baseUrl}/api/verify/${id}/cancel`, {}, { validateStatus: () => true });
+    expect(cancel.status).toBe(409);
+    release();
+
+    let result = await status(id);
+    for (let attempt = 0; !result.attestation?.onChain && attempt < 50; attempt++) {
+      await new Promise(resolve => setTimeout(resolve, 100));
+      result = await status(id);
+    }
+    expect(result.status).toBe('verified');
+    expect(result.attestation.onChain).toBe(true);
+  });
+});
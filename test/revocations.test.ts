@@ -0,0 +1,98 @@
+import http from 'http';
+import axios from 'axios';
+import { AddressInfo } from 'net';
+import { Keypair } from '@solana/web3.js';
+import { PoAClient } from '../src/client';
+import { AttestationInclusion } from '../src/types';
+import { StubChain } from './helpers/stubChain';
+
+async function listen(server: http.Server): Promise<string> {
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+}
+
+function close(server: http.Server): Promise<void> {
+  return new Promise(resolve => server.close(() => resolve()));
+}
+
+describe('revoking one agent of a batch', () => {
+  const payer = Keypair.generate();
+  const chain = new StubChain(payer.publicKey);
+  let uninstall: () => void;
+  let agent: http.Server;
+  let api: http.Server;
+  let baseUrl: string;
+  let client: PoAClient;
+  const ids: Record<string, string> = {};
+  const inclusions: Record<string, AttestationInclusion> = {};
+
+  // Verify two agents, which fill one batch, and wait for its memo
+  beforeAll(async () => {
+    process.env.PAYER_SECRET_KEY = JSON.stringify(Array.from(payer.secretKey));
+    process.env.ATTESTATION_BATCH_SIZE = '2';
+    process.env.ADMIN_TOKEN = 'admin-token';
+    uninstall = chain.install();
+    const { default: app } = await import('../src/index');
+
+    agent = http.createServer((_req, res) => {
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify({ status: 'ok' }));
+    });
+    const endpoint = await listen(agent);
+    api = http.createServer(app);
+    baseUrl = await listen(api);
+    client = new PoAClient({ baseUrl });
+
+    for (const name of ['agent-a', 'agent-b']) {
+      const walletAddress = Keypair.generate().publicKey.toBase58();
+      ids[name] = (await client.verifyQuick({ agentId: name, apiEndpoint: endpoint, walletAddress })).verificationId!;
+    }
+    for (const name of Object.keys(ids)) {
+      for (let attempt = 0; !inclusions[name] && attempt < 50; attempt++) {
+        const { data } = await axios.get(`${baseUrl}/api/status/${ids[name]}`);
+        inclusions[name] = data.attestation?.inclusion;
+        if (!inclusions[name]) await new Promise(resolve => setTimeout(resolve, 100));
+      }
+    }
+  });
+
+  afterAll(async () => {
+    uninstall();
+    await Promise.all([close(agent), close(api)]);
+  });
+
+  it('requires the admin token', async () => {
+    const response = await axios.post(`${baseUrl}/api/admin/revocations`, { verificationId: ids['agent-a'], reason: 'malicious' }, {
+      validateStatus: () => true
+    });
+    expect(response.status).toBe(401);
+  });
+
+  it('revokes the leaf and leaves the rest of the batch valid', async () => {
+    expect(inclusions['agent-a'].signature).toBe(inclusions['agent-b'].signature);
+    expect(await client.verifyInclusion(inclusions['agent-a'])).toEqual({ valid: true });
+
+    const response = await axios.post(`${baseUrl}/api/admin/revocations`, { verificationId: ids['agent-a'], reason: 'malicious' }, {
+      headers: { Authorization: 'Bearer admin-token' }
+    });
+    expect(response.status).toBe(201);
+    expect(response.data).toMatchObject({
+      target: inclusions['agent-a'].signature,
+      verificationId: ids['agent-a'],
+      reason: 'malicious',
+      verifier: payer.publicKey.toBase58()
+    });
+
+    expect(await client.verifyInclusion(inclusions['agent-a'])).toEqual({ valid: false, reason: 'revoked' });
+    expect(await client.verifyInclusion(inclusions['agent-b'])).toEqual({ valid: true });
+  });
+
+  it('reports the revoked status', async () => {
+    expect((await client.getCredentialStatus(ids['agent-a'])).status).toBe('revoked');
+    expect((await client.getCredentialStatus(ids['agent-b'])).status).toBe('active');
+
+    const { data: score } = await axios.get(`${baseUrl}/api/score/agent-a`);
+    expect(score).toMatchObject({ status: 'revoked', revocation: { reason: 'malicious' } });
+    expect((await axios.get(`${baseUrl}/api/score/agent-b`)).data.status).toBe('verified');
+  });
+});
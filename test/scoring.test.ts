@@ -0,0 +1,41 @@
+import { MAX_CODE_LINES, SELF_REPORTED_MAX, applySignals, calculateSignalScore, validateSignals } from '../src/scoring';
+
+describe('signal scoring', () => {
+  it('caps self-reported signals below the pass mark', () => {
+    const score = calculateSignalScore(0, {
+      codeUrl: 'https://github.com/me/agent',
+      documentation: true,
+      testCoverage: 100,
+      codeLines: 100000
+    });
+    expect(score).toBe(SELF_REPORTED_MAX);
+    expect(score).toBeLessThan(60);
+  });
+
+  it('stops counting code lines past the cap', () => {
+    expect(calculateSignalScore(0, { codeLines: MAX_CODE_LINES }))
+      .toBe(calculateSignalScore(0, { codeLines: MAX_CODE_LINES * 20 }));
+  });
+
+  it('ignores signals when liveness failed', () => {
+    const signals = { codeUrl: 'https://github.com/me/agent', documentation: true };
+    expect(applySignals({ liveness: false }, {}, 0, signals)).toBe(0);
+    expect(applySignals({ liveness: true }, {}, 40, signals)).toBe(65);
+  });
+
+  it('adds signals on top of the live score', () => {
+    expect(calculateSignalScore(100, {})).toBe(100);
+    expect(calculateSignalScore(72, {})).toBe(72);
+    expect(calculateSignalScore(90, { codeUrl: 'https://github.com/me/agent', documentation: true })).toBe(100);
+    expect(applySignals({ liveness: true, capability_trading: true }, {}, 100, {})).toBe(100);
+  });
+
+  it('rejects malformed signals', () => {
+    expect(validateSignals({ codeLines: -1 })).toMatch(/codeLines/);
+    expect(validateSignals({ codeLines: 1.5 })).toMatch(/codeLines/);
+    expect(validateSignals({ testCoverage: 150 })).toMatch(/testCoverage/);
+    expect(validateSignals({ testCoverage: NaN })).toMatch(/testCoverage/);
+    expect(validateSignals({ codeUrl: 'javascript:alert(1)' })).toMatch(/codeUrl/);
+    expect(validateSignals({ codeUrl: 'https://github.com/me/agent', testCoverage: 80, codeLines: 1200 })).toBeNull();
+  });
+});
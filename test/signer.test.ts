@@ -0,0 +1,92 @@
+import { Connection, Keypair, PublicKey, Transaction } from '@solana/web3.js';
+import { AttestationSubject, createAttestation, parseAttestationMemo } from '../src/attestation';
+import { KeypairSigner, RemoteSigner, encodeBase58 } from '../src/signer';
+import { StubSigner, startStubSigner } from './helpers/stubSigner';
+
+const MEMO_PROGRAM_ID = new PublicKey('MemoSq4gqABAXKb96qnH8TysNcWxMyWCqXgDLGmfcHr');
+const BLOCKHASH = '11111111111111111111111111111111';
+
+const subject: AttestationSubject = {
+  id: 'verification-1',
+  agentName: 'bot',
+  level: 'standard',
+  score: 82,
+  checks: { liveness: true, validJson: true }
+};
+const agent = Keypair.generate().publicKey.toBase58();
+
+// Any RPC call fails the test: dry runs with a blockhash must stay offline
+const offline = new Proxy({}, {
+  get: (_target, method) => () => {
+    throw new Error(`Unexpected RPC call: ${String(method)}`);
+  }
+}) as Connection;
+
+function decodeMemo(wire: string): { transaction: Transaction; memo: any } {
+  const transaction = Transaction.from(Buffer.from(wire, 'base64'));
+  const instruction = transaction.instructions.find(ix => ix.programId.equals(MEMO_PROGRAM_ID))!;
+  return { transaction, memo: parseAttestationMemo(JSON.parse(instruction.data.toString('utf8'))) };
+}
+
+describe('RemoteSigner', () => {
+  let stub: StubSigner;
+
+  beforeAll(async () => {
+    stub = await startStubSigner({ token: 'secret' });
+  });
+
+  afterAll(() => stub.close());
+
+  it('signs an attestation memo through the remote service', async () => {
+    const signer = new RemoteSigner(`${stub.url}/`, 'secret');
+    const result = await createAttestation(subject, agent, {
+      signer,
+      connection: offline,
+      dryRun: true,
+      recentBlockhash: BLOCKHASH
+    });
+
+    const { transaction, memo } = decodeMemo(result.transaction!);
+    expect(transaction.verifySignatures()).toBe(true);
+    expect(transaction.feePayer!.equals(stub.keypair.publicKey)).toBe(true);
+    expect(encodeBase58(transaction.signature!)).toBe(result.signature);
+    expect(memo).toMatchObject({ vid: subject.id, agent, verifier: stub.keypair.publicKey.toBase58() });
+    expect(stub.requests).toBe(1);
+  });
+
+  it('rejects a token the service refuses', async () => {
+    await expect(new RemoteSigner(stub.url, 'wrong').getPublicKey()).rejects.toThrow(/401/);
+  });
+
+  it('rejects a signature that does not verify', async () => {
+    const corrupt = await startStubSigner({ corrupt: true });
+    try {
+      await expect(createAttestation(subject, agent, {
+        signer: new RemoteSigner(corrupt.url),
+        connection: offline,
+        dryRun: true,
+        recentBlockhash: BLOCKHASH
+      })).rejects.toThrow('Remote signer returned an invalid signature');
+    } finally {
+      await corrupt.close();
+    }
+  });
+});
+
+describe('dry run', () => {
+  it('returns a signed transaction without sending it', async () => {
+    const payer = Keypair.generate();
+    const result = await createAttestation(subject, agent, {
+      signer: new KeypairSigner(payer),
+      connection: offline,
+      dryRun: true,
+      recentBlockhash: BLOCKHASH
+    });
+
+    expect(result).toMatchObject({ dryRun: true, slot: 0 });
+    const { transaction, memo } = decodeMemo(result.transaction!);
+    expect(transaction.recentBlockhash).toBe(BLOCKHASH);
+    expect(transaction.verifySignatures()).toBe(true);
+    expect(memo).toEqual(result.memo);
+  });
+});
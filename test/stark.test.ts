@@ -0,0 +1,208 @@
+import { P, Q, QM31, evaluateOnDomain, interpolate, randomElements } from '../src/field';
+import { Transcript } from '../src/fri';
+import { hexToDigest } from '../src/poseidon2';
+import { parsePredicate } from '../src/predicates';
+import {
+  StarkProof,
+  agentIdToFieldElement,
+  buildPredicateAir,
+  commitResult,
+  evaluateCircuit,
+  generatePredicateProof,
+  generatePredicateTrace,
+  generateStarkProof,
+  proveAir,
+  resultRecord,
+  verifyStarkProof
+} from '../src/stark';
+
+// Fixed clock: proofs must not depend on when the test runs
+const VERIFIED_AT = 1767225600;
+const NOW = VERIFIED_AT + 3600;
+const DAY = 24 * 60 * 60;
+
+function tampered(proof: StarkProof, edit: (copy: StarkProof) => void): StarkProof {
+  const copy: StarkProof = JSON.parse(JSON.stringify(proof));
+  edit(copy);
+  return copy;
+}
+
+// Change one base-field coordinate of an extension element
+function flip(value: QM31): void {
+  value[0] = (value[0] + 1) % P;
+}
+
+describe('field', () => {
+  it('interpolates and re-evaluates on a coset', () => {
+    const values: QM31[] = [1, 2, 3, 4, 5, 6, 7, 8].map(n => Q.from(n));
+    const coeffs = interpolate(values, [3, 0]);
+    expect(evaluateOnDomain(coeffs, 8, [3, 0])).toEqual(values);
+  });
+});
+
+describe('threshold proofs', () => {
+  const inputs = {
+    score: 72,
+    threshold: 60,
+    timestamp: VERIFIED_AT,
+    now: NOW,
+    agentIdHash: agentIdToFieldElement('test-agent'),
+    blinding: [5n, 6n, 7n, 8n]
+  };
+  let proof: StarkProof;
+
+  beforeAll(() => {
+    proof = generateStarkProof(inputs);
+  });
+
+  it('verifies an honest proof', () => {
+    expect(verifyStarkProof(proof)).toBe(true);
+  });
+
+  it('publishes the blinded commitment of the circuit', () => {
+    expect(proof.commitment).toBe(evaluateCircuit(inputs).commitment);
+    expect(proof.publicInputs.commitment).toBe(proof.commitment);
+    expect(verifyStarkProof(tampered(proof, copy => { copy.commitment = copy.stark.traceRoot; }))).toBe(false);
+  });
+
+  it('refuses to prove a score below the threshold', () => {
+    expect(() => generateStarkProof({
+      score: 59,
+      threshold: 60,
+      timestamp: VERIFIED_AT,
+      now: NOW,
+      agentIdHash: agentIdToFieldElement('test-agent')
+    })).toThrow('Score does not meet threshold');
+  });
+
+  it('rejects a flipped trace opening', () => {
+    expect(verifyStarkProof(tampered(proof, copy => flip(copy.stark.queries[0].trace[0].values[0])))).toBe(false);
+  });
+
+  it('rejects a flipped FRI layer value', () => {
+    expect(verifyStarkProof(tampered(proof, copy => flip(copy.stark.fri.queries[0][1].values[0])))).toBe(false);
+  });
+
+  it('rejects a flipped FRI final polynomial', () => {
+    expect(verifyStarkProof(tampered(proof, copy => flip(copy.stark.fri.finalPoly[0])))).toBe(false);
+  });
+
+  it('rejects a flipped out-of-domain value', () => {
+    expect(verifyStarkProof(tampered(proof, copy => flip(copy.stark.ood.trace[0])))).toBe(false);
+    expect(verifyStarkProof(tampered(proof, copy => flip(copy.stark.ood.composition)))).toBe(false);
+  });
+
+  it('rejects changed public inputs', () => {
+    expect(verifyStarkProof(tampered(proof, copy => { copy.publicInputs.threshold = 70; }))).toBe(false);
+    expect(verifyStarkProof(tampered(proof, copy => { copy.publicInputs.agentIdHash = 'deadbeef'; }))).toBe(false);
+    expect(verifyStarkProof(tampered(proof, copy => { copy.publicInputs.validUntil += 1; }))).toBe(false);
+    expect(verifyStarkProof(tampered(proof, copy => { copy.publicInputs.provedAt += 1; }))).toBe(false);
+  });
+
+  it('rejects a dropped query', () => {
+    expect(verifyStarkProof(tampered(proof, copy => { copy.stark.queries.pop(); }))).toBe(false);
+  });
+
+  it('rejects malformed input', () => {
+    expect(verifyStarkProof({} as StarkProof)).toBe(false);
+  });
+});
+
+describe('proving time', () => {
+  const agentIdHash = agentIdToFieldElement('test-agent');
+
+  it('is a public input checked against the expiry', () => {
+    const proof = generatePredicateProof({
+      predicate: 'score >= 60', subject: { score: 72, checks: {} }, timestamp: VERIFIED_AT, now: NOW, agentIdHash
+    });
+    expect(proof.publicInputs).toMatchObject({ provedAt: NOW, validUntil: VERIFIED_AT + 30 * DAY });
+    expect(verifyStarkProof(proof)).toBe(true);
+  });
+
+  it('decides expiry from the time passed in, not the clock', () => {
+    const expired = { score: 72, threshold: 60, timestamp: VERIFIED_AT, now: VERIFIED_AT + 31 * DAY, agentIdHash };
+    expect(evaluateCircuit(expired).constraintsSatisfied).toBe(false);
+    expect(() => generateStarkProof(expired)).toThrow('Circuit constraints not satisfied');
+    expect(() => generatePredicateProof({
+      predicate: 'score >= 60', subject: { score: 72, checks: {} }, timestamp: VERIFIED_AT, now: VERIFIED_AT - 1, agentIdHash
+    })).toThrow('Verification result has expired');
+  });
+});
+
+describe('result commitment', () => {
+  const agentIdHash = agentIdToFieldElement('victim-agent');
+  const predicate = parsePredicate('score >= 90');
+
+  // The victim's actual result, committed with blinding the attacker doesn't know
+  const real = resultRecord({ score: 72, checks: {} }, randomElements(4));
+  const committed = { checks: [], digest: hexToDigest(commitResult(real))! };
+
+  it('is the commitment to the proven result', () => {
+    const subject = { score: 72, tier: 'good', checks: { liveness: true, uptime: false } };
+    const proof = generatePredicateProof({
+      predicate: 'score >= 60', subject, timestamp: VERIFIED_AT, now: NOW, agentIdHash, blinding: [1n, 2n, 3n, 4n]
+    });
+
+    expect(proof.publicInputs.checks).toEqual(['liveness', 'uptime']);
+    expect(proof.publicInputs.commitment).toBe(commitResult(resultRecord(subject, [1, 2, 3, 4])));
+  });
+
+  it('has no witness other than the committed result', () => {
+    const claimed = { score: 125, checks: {} };
+    const air = buildPredicateAir(predicate, committed);
+
+    // A result of the attacker's choosing hashes to a different commitment
+    const forged = generatePredicateTrace(predicate, claimed, resultRecord(claimed, randomElements(4)));
+    expect(() => proveAir(air, forged, new Transcript('test'))).toThrow('does not satisfy');
+
+    // So does the real blinding under another score; and the real sponge
+    // run doesn't match a score column claiming 125
+    const rescored = generatePredicateTrace(predicate, claimed, [125, ...real.slice(1)]);
+    expect(() => proveAir(air, rescored, new Transcript('test'))).toThrow('does not satisfy');
+    const sponge = generatePredicateTrace(predicate, claimed, real);
+    const spliced = rescored.map((column, c) => c >= real.length && c < real.length + 48 ? sponge[c] : column);
+    expect(() => proveAir(air, spliced, new Transcript('test'))).toThrow('does not satisfy');
+  });
+
+  it('rejects a proof relabelled with another result\'s commitment', () => {
+    // Proves a made-up result, so it only holds under its own commitment
+    const forged = generateStarkProof({ score: 125, threshold: 90, timestamp: VERIFIED_AT, now: NOW, agentIdHash });
+    expect(verifyStarkProof(forged)).toBe(true);
+    expect(forged.publicInputs.commitment).not.toBe(commitResult(real));
+
+    expect(verifyStarkProof(tampered(forged, copy => { copy.publicInputs.commitment = commitResult(real); }))).toBe(false);
+  });
+});
+
+describe('passed() clauses', () => {
+  const agentIdHash = agentIdToFieldElement('test-agent');
+  const predicate = parsePredicate('passed(uptime)');
+  const subject = { score: 72, checks: { liveness: true, uptime: false } };
+  const blinding = randomElements(4);
+  const committed = { checks: ['liveness', 'uptime'], digest: hexToDigest(commitResult(resultRecord(subject, blinding)))! };
+
+  it('proves checks the committed result passed', () => {
+    const proof = generatePredicateProof({
+      predicate: 'passed(liveness) && score >= 60', subject, timestamp: VERIFIED_AT, now: NOW, agentIdHash
+    });
+    expect(verifyStarkProof(proof)).toBe(true);
+  });
+
+  it('cannot prove a check the committed result failed', () => {
+    expect(() => generatePredicateProof({
+      predicate, subject, timestamp: VERIFIED_AT, now: NOW, agentIdHash
+    })).toThrow('Predicate not satisfied');
+
+    // The committed pass bit is 0, and claiming it was 1 changes the commitment
+    const air = buildPredicateAir(predicate, committed);
+    const honest = generatePredicateTrace(predicate, subject, resultRecord(subject, blinding));
+    expect(() => proveAir(air, honest, new Transcript('test'))).toThrow('does not satisfy');
+    const claimed = { ...subject, checks: { liveness: true, uptime: true } };
+    const forged = generatePredicateTrace(predicate, claimed, resultRecord(claimed, blinding));
+    expect(() => proveAir(air, forged, new Transcript('test'))).toThrow('does not satisfy');
+  });
+
+  it('rejects checks outside the committed result', () => {
+    expect(() => buildPredicateAir(parsePredicate('passed(trading)'), committed)).toThrow('Check not in the committed result');
+  });
+});
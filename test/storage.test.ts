@@ -0,0 +1,86 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { FileStorage, VerificationRecord } from '../src/storage';
+
+function record(id: string, score: number): VerificationRecord {
+  return { id, agentName: 'bot', status: 'verified', score, checks: {}, createdAt: new Date().toISOString() };
+}
+
+describe('FileStorage', () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'poa-storage-'));
+    file = path.join(dir, 'poa.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('appends saves to the log instead of rewriting the snapshot', () => {
+    const storage = new FileStorage(file);
+    const snapshotSize = fs.statSync(file).size;
+
+    storage.saveVerification(record('v1', 70));
+    storage.saveVerification(record('v1', 75));
+
+    expect(fs.statSync(file).size).toBe(snapshotSize);
+    expect(fs.readFileSync(`${file}.log`, 'utf8').trim().split('\n')).toHaveLength(2);
+    expect(new FileStorage(file).getVerification('v1')?.score).toBe(75);
+  });
+
+  it('compacts the log into the snapshot', () => {
+    const storage = new FileStorage(file, { compactAfter: 2 });
+    storage.saveVerification(record('v1', 70));
+    storage.saveVerification(record('v2', 80));
+
+    expect(fs.readFileSync(`${file}.log`, 'utf8')).toBe('');
+    expect(JSON.parse(fs.readFileSync(file, 'utf8')).verifications).toHaveLength(2);
+  });
+
+  it('survives a torn last log line', () => {
+    const storage = new FileStorage(file);
+    storage.saveVerification(record('v1', 70));
+    fs.appendFileSync(`${file}.log`, '{"type":"verification","value":{"id":"v2"');
+
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const reloaded = new FileStorage(file);
+    warn.mockRestore();
+
+    expect(reloaded.getVerification('v1')?.score).toBe(70);
+    expect(reloaded.getVerification('v2')).toBeUndefined();
+  });
+
+  it('replays traces without duplicating them', () => {
+    const storage = new FileStorage(file);
+    const trace = {
+      id: 't1',
+      agentId: 'bot',
+      trace: { period: { start: '2026-02-01', end: '2026-02-02' }, summary: { totalActions: 1, successRate: 1, errorRate: 0 } },
+      submittedAt: '2026-02-02'
+    };
+    storage.saveTrace(trace);
+    storage.saveTrace(trace);
+
+    expect(new FileStorage(file).getTraces('bot')).toHaveLength(1);
+  });
+
+  it('keeps attestations pending until they are published', () => {
+    const storage = new FileStorage(file);
+    const pending = (verificationId: string) => ({
+      verificationId,
+      entry: { subject: { id: verificationId, agentName: 'bot', score: 80, checks: {} }, agentAddress: 'wallet' },
+      status: 'pending' as const,
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString()
+    });
+    storage.savePendingAttestation(pending('v1'));
+    storage.savePendingAttestation(pending('v2'));
+    storage.savePendingAttestation({ ...pending('v1'), status: 'published' });
+
+    expect(new FileStorage(file).listPendingAttestations().map(p => p.verificationId)).toEqual(['v2']);
+  });
+});
@@ -0,0 +1,48 @@
+import { generateKeyPairSync, sign } from 'crypto';
+import { PublicKey } from '@solana/web3.js';
+import { verifyWalletSignature } from '../src/signer';
+import { StoredTrace, aggregateTraces, findOverlap, traceSigningMessage } from '../src/traces';
+import { ExecutionTrace } from '../src/types';
+
+function trace(start: string, end: string): ExecutionTrace {
+  return { period: { start, end }, summary: { totalActions: 10, successRate: 1, errorRate: 0 } };
+}
+
+function stored(id: string, t: ExecutionTrace): StoredTrace {
+  return { id, agentId: 'bot', trace: t, submittedAt: t.period.end };
+}
+
+describe('trace periods', () => {
+  const existing = [stored('a', trace('2026-02-01', '2026-02-08'))];
+
+  it('finds overlapping periods', () => {
+    expect(findOverlap(trace('2026-02-05', '2026-02-10'), existing)?.id).toBe('a');
+    expect(findOverlap(trace('2026-01-01', '2026-03-01'), existing)?.id).toBe('a');
+  });
+
+  it('allows periods that only touch', () => {
+    expect(findOverlap(trace('2026-02-08', '2026-02-10'), existing)).toBeUndefined();
+  });
+
+  it('counts overlapping coverage once', () => {
+    const overlapping = [...existing, stored('b', trace('2026-02-01', '2026-02-08'))];
+    expect(aggregateTraces(overlapping).coveredDays).toBe(7);
+  });
+});
+
+describe('trace signatures', () => {
+  const { publicKey, privateKey } = generateKeyPairSync('ed25519');
+  const wallet = new PublicKey(Buffer.from(publicKey.export({ format: 'jwk' }).x!, 'base64url')).toBase58();
+  const t = trace('2026-02-01', '2026-02-08');
+  const signature = sign(null, Buffer.from(traceSigningMessage('bot', t)), privateKey).toString('base64');
+
+  it('accepts the wallet signature', () => {
+    expect(verifyWalletSignature(traceSigningMessage('bot', t), signature, wallet)).toBe(true);
+  });
+
+  it('rejects a signature for another agent or trace', () => {
+    expect(verifyWalletSignature(traceSigningMessage('other', t), signature, wallet)).toBe(false);
+    expect(verifyWalletSignature(traceSigningMessage('bot', trace('2026-02-01', '2026-02-09')), signature, wallet)).toBe(false);
+    expect(verifyWalletSignature(traceSigningMessage('bot', t), 'garbage', wallet)).toBe(false);
+  });
+});
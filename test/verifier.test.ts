@@ -0,0 +1,70 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { CheckDefinition, registerCheck, unregisterCheck, verifyAgent } from '../src/verifier';
+
+function check(overrides: Partial<CheckDefinition>): CheckDefinition {
+  return {
+    id: 'custom',
+    weight: 10,
+    minLevel: 'basic',
+    timeout: 1000,
+    run: async () => ({ success: true, detail: 'ok' }),
+    ...overrides
+  };
+}
+
+describe('registerCheck', () => {
+  afterEach(() => {
+    unregisterCheck('custom');
+  });
+
+  it.each([
+    ['an unknown level', { minLevel: 'standrad' as any }, /minLevel/],
+    ['a negative weight', { weight: -1 }, /weight/],
+    ['a non-numeric weight', { weight: '10' as any }, /weight/],
+    ['a zero timeout', { timeout: 0 }, /timeout/],
+    ['a malformed dependsOn', { dependsOn: 'liveness' as any }, /dependsOn/],
+    ['a missing run', { run: undefined as any }, /run/],
+    ['an empty id', { id: '' }, /id/]
+  ])('rejects %s', (_name, overrides, message) => {
+    expect(() => registerCheck(check(overrides))).toThrow(message);
+  });
+
+  it('rejects duplicate and reserved ids', () => {
+    registerCheck(check({}));
+    expect(() => registerCheck(check({}))).toThrow(/already registered/);
+    expect(() => registerCheck(check({ id: 'capability_x' }))).toThrow(/reserved/);
+  });
+});
+
+describe('verifyAgent scoring', () => {
+  let server: http.Server;
+  let endpoint: string;
+
+  beforeAll(async () => {
+    server = http.createServer((_req, res) => {
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify({ status: 'ok' }));
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    endpoint = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    unregisterCheck('gate');
+    unregisterCheck('dependent');
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('counts checks skipped for a failed dependency as failed', async () => {
+    registerCheck(check({ id: 'gate', run: async () => ({ success: false, detail: 'no' }) }));
+    registerCheck(check({ id: 'dependent', weight: 45, dependsOn: ['gate'] }));
+
+    const result = await verifyAgent(endpoint, [], 'basic');
+
+    expect(result.checks.dependent).toBe(false);
+    expect(result.details.dependent).toBe('Requires gate');
+    // liveness 30 + healthEndpoint 10 + validJson 15 out of 55 + 10 + 45
+    expect(result.score).toBe(Math.round(55 / 110 * 100));
+  });
+});
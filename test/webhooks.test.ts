@@ -0,0 +1,82 @@
+import http from 'http';
+import { createHmac } from 'crypto';
+import { AddressInfo } from 'net';
+import { SIGNATURE_HEADER, WebhookDelivery, deliverWebhook, signPayload } from '../src/webhooks';
+
+const SECRET = 'whsec_test';
+
+describe('signPayload', () => {
+  it('signs the timestamp and raw body with HMAC-SHA256', () => {
+    // printf '%s' '1767225600.<body>' | openssl dgst -sha256 -hmac whsec_test
+    const body = '{"event":"verification.completed","verificationId":"v1"}';
+    expect(signPayload(SECRET, 1767225600, body)).toBe(
+      't=1767225600,v1=2a34186595f5f4a88a3c9d0271f28471e94b2010e7e2a60a891ef289a9ba2657'
+    );
+    expect(signPayload('other-secret', 1767225600, body)).not.toContain('2a34186595f5f4a8');
+    expect(signPayload(SECRET, 1767225601, body)).not.toContain('2a34186595f5f4a8');
+  });
+});
+
+describe('deliverWebhook', () => {
+  let server: http.Server;
+  let url: string;
+  let statuses: number[];
+  let received: { headers: http.IncomingHttpHeaders; body: string }[];
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => { body += chunk; });
+      req.on('end', () => {
+        received.push({ headers: req.headers, body });
+        res.statusCode = statuses.shift() ?? 200;
+        res.end();
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hook`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    statuses = [];
+    received = [];
+  });
+
+  it('sends a signature the receiver can recompute from the raw body', async () => {
+    const attempts: WebhookDelivery[] = [];
+    const delivered = await deliverWebhook(url, 'verification.completed', { verificationId: 'v1', score: 80 }, SECRET,
+      delivery => attempts.push(delivery));
+
+    expect(delivered).toBe(true);
+    const [{ headers, body }] = received;
+    const match = /^t=(\d+),v1=([0-9a-f]{64})$/.exec(headers[SIGNATURE_HEADER.toLowerCase()] as string);
+    expect(match).not.toBeNull();
+    const expected = createHmac('sha256', SECRET).update(`${match![1]}.${body}`).digest('hex');
+    expect(match![2]).toBe(expected);
+    expect(Math.abs(Date.now() / 1000 - Number(match![1]))).toBeLessThan(5);
+
+    expect(JSON.parse(body)).toMatchObject({ event: 'verification.completed', verificationId: 'v1', score: 80 });
+    expect(headers['x-poa-event']).toBe('verification.completed');
+    expect(headers['x-poa-delivery']).toBe(JSON.parse(body).deliveryId);
+    expect(attempts).toMatchObject([{ attempt: 1, success: true, statusCode: 200 }]);
+  });
+
+  it('retries server errors and gives up on rejected payloads', async () => {
+    statuses = [503, 400];
+    const attempts: WebhookDelivery[] = [];
+    const delivered = await deliverWebhook(url, 'verification.failed', { verificationId: 'v2' }, SECRET,
+      delivery => attempts.push(delivery), { backoffMs: 1 });
+
+    expect(delivered).toBe(false);
+    expect(attempts.map(({ attempt, statusCode, nextRetryAt }) => ({ attempt, statusCode, retry: !!nextRetryAt }))).toEqual([
+      { attempt: 1, statusCode: 503, retry: true },
+      { attempt: 2, statusCode: 400, retry: false }
+    ]);
+    // Every attempt of one delivery is signed over the same body
+    expect(received[1].body).toBe(received[0].body);
+  });
+});